@@ -1,5 +1,49 @@
 export { default as Socket } from './src/Socket'
-export type { SocketOptions } from './src/types'
-export { parseSocketError, isValidationError } from './src/errors'
+export type {
+  AuthOptions,
+  Codec,
+  ErrorTranslator,
+  ErrorTree,
+  Logger,
+  MessageRegistry,
+  MessageRegistryOptions,
+  Middleware,
+  ParseErrorOptions,
+  RequestContext,
+  RequestHandler,
+  SharedOptions,
+  SocketOptions
+} from './src/types'
+export { CloseCode, ReadyState } from './src/types'
+export {
+  AbortError,
+  ConnectionClosedError,
+  EnvelopeError,
+  InvalidPayloadError,
+  NotOpenError,
+  ServerError,
+  TimeoutError,
+  ValidationError,
+  buildErrorTree,
+  formatLoc,
+  isAbortError,
+  isConnectionClosedError,
+  isEnvelopeError,
+  isNotOpenError,
+  isServerError,
+  parseSocketError,
+  isTimeoutError,
+  isValidationError,
+  translateError
+} from './src/errors'
+export { jsonCodec, msgpackCodec } from './src/codecs'
+export { createConsoleLogger, silentLogger } from './src/logger'
+export { default as Metrics } from './src/metrics'
+export type { MetricsSnapshot, TypeMetrics } from './src/metrics'
+export { default as TrafficRecorder } from './src/recorder'
+export type { Recording } from './src/recorder'
+export { createReplay } from './src/replay'
 export { default as ProgressPromise } from './src/ProgressPromise'
+export { default as SharedConnection } from './src/shared'
+export type { SharedConnectionOptions } from './src/shared'
 export * as types from './src/types'
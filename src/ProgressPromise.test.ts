@@ -0,0 +1,121 @@
+import { expect, jest, test } from '@jest/globals'
+
+import ProgressPromise from './ProgressPromise'
+import { Progress } from './types'
+
+function createJob(total: number) {
+  let report: (progress: Progress) => void = () => {}
+  let finish: (value: string) => void = () => {}
+  let fail: (error: Error) => void = () => {}
+  const promise = new ProgressPromise<string>((resolve, reject, progress) => {
+    report = progress
+    finish = resolve
+    fail = reject
+  })
+  return {
+    promise,
+    progress: (curr: number) => report({ curr, total }),
+    resolve: finish,
+    reject: fail
+  }
+}
+
+function tick() {
+  return new Promise((resolve) => setTimeout(resolve))
+}
+
+test('Progress through then, catch and finally', async () => {
+  const job = createJob(4)
+  const chained = job.promise
+    .then((value) => value.toUpperCase())
+    .catch(() => 'failed')
+    .finally(() => {})
+  expect(chained).toBeInstanceOf(ProgressPromise)
+  const onProgress = jest.fn()
+  chained.onProgress(onProgress)
+
+  job.progress(1)
+  await tick()
+  expect(onProgress).toBeCalledWith({ curr: 1, total: 4 })
+  expect(chained.progress).toEqual({ curr: 1, total: 4 })
+  expect(chained.percent).toBe(25)
+  expect(chained.eta).toBeGreaterThanOrEqual(0)
+
+  job.resolve('done')
+  expect(await chained).toBe('DONE')
+})
+
+test('Progress percent and eta', () => {
+  const { promise } = createJob(1)
+  expect(promise.percent).toBe(0)
+  expect(promise.eta).toBeUndefined()
+})
+
+test('ProgressPromise.all combines progress', async () => {
+  const first = createJob(1)
+  const second = createJob(3)
+  const all = ProgressPromise.all([
+    first.promise,
+    second.promise,
+    Promise.resolve(1)
+  ])
+  const updates: Progress[] = []
+  all.onProgress((progress) => updates.push(progress))
+  await tick()
+  // Until progress is reported, promises count as one step
+  expect(all.progress).toEqual({ curr: 1, total: 3 })
+
+  second.progress(2)
+  await tick()
+  expect(all.progress).toEqual({ curr: 3, total: 5 })
+  first.resolve('a')
+  second.resolve('b')
+  expect(await all).toEqual(['a', 'b', 1])
+  expect(updates.at(-1)).toEqual({ curr: 5, total: 5 })
+
+  const failing = createJob(1)
+  const rejected = ProgressPromise.all([failing.promise])
+  failing.reject(new Error('Failed'))
+  await expect(rejected).rejects.toThrow('Failed')
+})
+
+test('ProgressPromise.allSettled combines progress', async () => {
+  const first = createJob(2)
+  const second = createJob(2)
+  const settled = ProgressPromise.allSettled([first.promise, second.promise])
+  first.progress(1)
+  second.progress(0)
+  await tick()
+  expect(settled.percent).toBe(25)
+  first.reject(new Error('Failed'))
+  second.resolve('b')
+  expect(await settled).toEqual([
+    { status: 'rejected', reason: new Error('Failed') },
+    { status: 'fulfilled', value: 'b' }
+  ])
+  expect(settled.percent).toBe(100)
+})
+
+test('ProgressPromise async iterator', async () => {
+  const job = createJob(3)
+  const updates: number[] = []
+  const iterated = (async () => {
+    for await (const { curr } of job.promise) updates.push(curr)
+  })()
+  job.progress(1)
+  await tick()
+  job.progress(2)
+  job.progress(3)
+  job.resolve('done')
+  await iterated
+  expect(updates).toEqual([1, 2, 3])
+
+  // Ends on rejection too
+  const failing = createJob(1)
+  failing.promise.catch(() => {})
+  const ended = (async () => {
+    for await (const _ of failing.promise);
+  })()
+  failing.reject(new Error('Failed'))
+  await ended
+})
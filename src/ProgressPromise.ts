@@ -5,10 +5,41 @@ const PROGRESS_INITIAL: Progress = {
   total: 1
 } as const
 
+type AllResult<T extends readonly unknown[]> = { -readonly [P in keyof T]: Awaited<T[P]> }
+type SettledResult<T extends readonly unknown[]> = { -readonly [P in keyof T]: PromiseSettledResult<Awaited<T[P]>> }
+
+/**
+ * Report combined progress of values, weighted by their totals.
+ * Values count as one step until they report progress, and as done when settled.
+ */
+function combineProgress (values: readonly unknown[], progress: (progress: Progress) => void) {
+  const parts = values.map((value) => value instanceof ProgressPromise ? { ...value.progress } : { ...PROGRESS_INITIAL })
+  const report = () => progress({
+    curr: parts.reduce((sum, { curr }) => sum + curr, 0),
+    total: parts.reduce((sum, { total }) => sum + total, 0)
+  })
+  values.forEach((value, index) => {
+    const part = parts[index]
+    const done = () => {
+      part.curr = part.total
+      report()
+    }
+    if (value instanceof ProgressPromise) {
+      value.onProgress(({ curr, total }: Progress) => {
+        part.curr = curr
+        part.total = total
+        report()
+      })
+    }
+    Promise.resolve(value).then(done, done)
+  })
+}
+
 export default class ProgressPromise<T, PT extends Progress=Progress> extends Promise<T> {
   _progress: Progress
   _listeners: Set<ProgressHandler<PT>>
   _setProgress: ProgressHandler<PT>
+  _startedAt: number
 
   constructor (
     executor: (
@@ -45,12 +76,32 @@ export default class ProgressPromise<T, PT extends Progress=Progress> extends Pr
     this._listeners = new Set()
     this._setProgress = setProgress
     this._progress = PROGRESS_INITIAL
+    this._startedAt = performance.now()
   }
 
   get progress () {
     return this._progress
   }
 
+  /**
+   * Progress in percent (0-100)
+   */
+  get percent () {
+    const { curr, total } = this._progress
+    if (!total) return 0
+    return Math.min(curr / total, 1) * 100
+  }
+
+  /**
+   * Estimated time left (ms), based on progress rate so far. Undefined before any progress.
+   */
+  get eta () {
+    const { curr, total } = this._progress
+    if (curr <= 0) return
+    const elapsed = performance.now() - this._startedAt
+    return Math.max(total - curr, 0) * elapsed / curr
+  }
+
   public onProgress (callback: ProgressHandler<PT>) {
     if (typeof callback !== 'function') {
       throw new TypeError(`Expected a \`Function\`, got \`${typeof callback}\``)
@@ -59,4 +110,76 @@ export default class ProgressPromise<T, PT extends Progress=Progress> extends Pr
     this._listeners.add(callback)
     return this
   }
+
+  // Chained promises (including catch and finally, that use then) get progress from this promise
+  public then<TResult1 = T, TResult2 = never> (
+    onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null
+  ): ProgressPromise<TResult1 | TResult2, PT> {
+    const chained = super.then(onfulfilled, onrejected) as ProgressPromise<TResult1 | TResult2, PT>
+    chained._progress = this._progress
+    chained._startedAt = this._startedAt
+    this._listeners.add(chained._setProgress)
+    return chained
+  }
+
+  public catch<TResult = never> (
+    onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | null
+  ): ProgressPromise<T | TResult, PT> {
+    return this.then(undefined, onrejected)
+  }
+
+  public finally (onfinally?: (() => void) | null): ProgressPromise<T, PT> {
+    return super.finally(onfinally) as ProgressPromise<T, PT>
+  }
+
+  /**
+   * Progress updates, until promise settles. Does not throw if promise rejects.
+   */
+  public async * [Symbol.asyncIterator] (): AsyncGenerator<PT> {
+    const updates: PT[] = []
+    let settled = false
+    let wake: (() => void) | undefined
+    const listener = (progress: PT) => {
+      updates.push(progress)
+      wake?.()
+    }
+    const settle = async () => {
+      // Progress is delivered on next microtask, so let any last progress arrive first
+      await Promise.resolve()
+      settled = true
+      wake?.()
+    }
+    this._listeners.add(listener)
+    this.then(settle, settle)
+    try {
+      while (true) {
+        if (updates.length) yield updates.shift()!
+        else if (settled) return
+        else await new Promise<void>((resolve) => { wake = resolve })
+      }
+    } finally {
+      this._listeners.delete(listener)
+    }
+  }
+
+  /**
+   * As Promise.all, with combined progress of all values
+   */
+  static all<T extends readonly unknown[] | []> (values: T): ProgressPromise<AllResult<T>> {
+    return new ProgressPromise((resolve, reject, progress) => {
+      combineProgress(values, progress)
+      Promise.all(values).then(resolve as (value: unknown) => void, reject)
+    })
+  }
+
+  /**
+   * As Promise.allSettled, with combined progress of all values
+   */
+  static allSettled<T extends readonly unknown[] | []> (values: T): ProgressPromise<SettledResult<T>> {
+    return new ProgressPromise((resolve, reject, progress) => {
+      combineProgress(values, progress)
+      Promise.allSettled(values).then(resolve as (value: unknown) => void, reject)
+    })
+  }
 }
@@ -2,7 +2,20 @@ import { expect, jest, test } from '@jest/globals'
 import WS from 'jest-websocket-mock'
 
 import Socket from './Socket'
-import { SocketOptions } from './types'
+import { jsonCodec, msgpackCodec, packMessage, unpackMessage } from './codecs'
+import {
+  AbortError,
+  ConnectionClosedError,
+  EnvelopeError,
+  InvalidPayloadError,
+  NotOpenError,
+  ServerError,
+  TimeoutError,
+  ValidationError,
+  isConnectionClosedError,
+  isServerError
+} from './errors'
+import { RequestContext, SocketOptions, State } from './types'
 
 /* Tests using  https://www.npmjs.com/package/jest-websocket-mock */
 
@@ -51,6 +64,20 @@ test('WebSocket type message', async () => {
   server.send({ t: 'test.none' })
   expect(handler).not.toBeCalledWith({ t: 'test.none' })
 
+  // Exact types and wildcards, removed by returned function
+  const exact = jest.fn()
+  const wildcard = jest.fn()
+  const removeExact = socket.addTypeHandler('test.exact', exact)
+  socket.addTypeHandler('test.*.closed', wildcard)
+  server.send({ t: 'test.exact' })
+  server.send({ t: 'test.poll.closed' })
+  expect(exact).toBeCalledWith({ t: 'test.exact' })
+  expect(wildcard).toBeCalledWith({ t: 'test.poll.closed' })
+  removeExact()
+  server.send({ t: 'test.exact' })
+  expect(exact).toBeCalledTimes(1)
+  expect(wildcard).toBeCalledTimes(1)
+
   // The WS class also has a static "clean" method to gracefully close all open connections,
   // particularly useful to reset the environment between test runs.
   WS.clean()
@@ -175,6 +202,66 @@ test('Socket call response', async () => {
   WS.clean()
 })
 
+test('Socket request handlers', async () => {
+  const { server, socket } = await createSocket()
+
+  const handler = jest.fn(async (p: unknown, { progress }: RequestContext) => {
+    const { n } = p as { n: number }
+    if (n < 0)
+      throw new ValidationError('Invalid number', [
+        { loc: ['n'], msg: 'Must be positive', type: 'value_error' }
+      ])
+    if (!n) throw new Error('No number')
+    progress({ curr: 1, total: 2 })
+    return n * 2
+  })
+  const remove = socket.handle('test.double', handler)
+
+  server.send({ t: 'test.double', i: 'a', p: { n: 2 } })
+  expect(await server.nextMessage).toEqual({
+    t: 'test.double',
+    i: 'a',
+    s: 'r',
+    p: { curr: 1, total: 2 }
+  })
+  expect(await server.nextMessage).toEqual({
+    t: 'test.double',
+    i: 'a',
+    s: 's',
+    p: 4
+  })
+  server.send({ t: 'test.double', i: 'b', p: { n: -1 } })
+  expect(await server.nextMessage).toEqual({
+    t: 'test.double',
+    i: 'b',
+    s: 'f',
+    p: {
+      msg: 'Invalid number',
+      errors: [{ loc: ['n'], msg: 'Must be positive', type: 'value_error' }]
+    }
+  })
+  server.send({ t: 'test.double', i: 'c', p: { n: 0 } })
+  expect(await server.nextMessage).toEqual({
+    t: 'test.double',
+    i: 'c',
+    s: 'f',
+    p: { msg: 'No number' }
+  })
+
+  // Responses to own calls and other types are not handled
+  server.send({ t: 'test.double', i: '1', s: 's', p: 2 })
+  server.send({ t: 'test.double.bulk', i: 'e', p: { n: 2 } })
+  // Only one response per request
+  expect(() => socket.handle('test.double', handler)).toThrow(
+    "Request handler for 'test.double' already registered"
+  )
+  remove()
+  server.send({ t: 'test.double', i: 'd', p: { n: 2 } })
+  expect(handler).toBeCalledTimes(3)
+
+  WS.clean()
+})
+
 test('channels connection', async () => {
   const { server, socket } = await createSocket()
 
@@ -231,3 +318,761 @@ test('before app_state event', async () => {
   expect(handler).toBeCalledWith({ channelType: 'test', pk: 1 })
   WS.clean()
 })
+
+test('Socket channel handlers', async () => {
+  const { server, socket } = await createSocket({
+    getMessageChannel: ({ p }) =>
+      (p as { meeting?: number })?.meeting
+        ? { channel_type: 'meeting', pk: (p as { meeting: number }).meeting }
+        : undefined
+  })
+  const global = jest.fn()
+  const meeting1 = jest.fn()
+  const meeting2 = jest.fn()
+  const meeting1Channel = { channel_type: 'meeting', pk: 1 }
+  socket.addTypeHandler('poll', global)
+  socket.addChannelHandler(meeting1Channel, 'poll', meeting1)
+  socket.addChannelHandler({ channel_type: 'meeting', pk: 2 }, 'poll', meeting2)
+
+  // App state is tagged with channel
+  server.send({
+    t: 'channel.subscribed',
+    i: '1',
+    p: {
+      channel_type: 'meeting',
+      channel_name: 'meeting_1',
+      pk: 1,
+      app_state: [{ t: 'poll.added', p: { pk: 1 } }]
+    },
+    s: 's'
+  })
+  const appState = { t: 'poll.added', p: { pk: 1 }, channel: meeting1Channel }
+  expect(global).toBeCalledWith(appState)
+  expect(meeting1).toBeCalledWith(appState)
+  expect(meeting2).not.toBeCalled()
+
+  // Live messages resolved by getMessageChannel
+  server.send({ t: 'poll.changed', p: { pk: 2, meeting: 2 } })
+  expect(meeting2).toBeCalledTimes(1)
+  expect(meeting1).toBeCalledTimes(1)
+  server.send({ t: 'poll.changed', p: { pk: 3 } })
+  expect(global).toBeCalledTimes(3)
+  expect(meeting1).toBeCalledTimes(1)
+  expect(meeting2).toBeCalledTimes(1)
+
+  // Batches tagged by server
+  server.send({
+    t: 's.batch',
+    i: '1',
+    p: { t: 'poll.changed', payloads: [{ pk: 1 }] },
+    channel: meeting1Channel
+  })
+  expect(meeting1).toBeCalledWith({
+    t: 'poll.changed',
+    i: '1',
+    p: { pk: 1 },
+    channel: meeting1Channel
+  })
+
+  socket.removeChannelHandler(meeting1Channel, 'poll', meeting1)
+  server.send({ t: 'poll.changed', p: { pk: 1, meeting: 1 } })
+  expect(meeting1).toBeCalledTimes(2)
+  expect(global).toBeCalledTimes(5)
+
+  WS.clean()
+})
+
+test('Socket middleware', async () => {
+  const log: string[] = []
+  const { server, socket } = await createSocket({
+    middleware: [
+      {
+        incoming(message, next) {
+          log.push(`in ${message.t}`)
+          // Drop
+          if (message.t === 'test.secret') return
+          next(message)
+        },
+        outgoing(message, next) {
+          log.push(`out ${message.t}`)
+          next({ ...message, p: { ...(message.p as object), token: 'abc' } })
+        }
+      }
+    ]
+  })
+  const handler = jest.fn()
+  socket.addTypeHandler('test', handler)
+
+  server.send({ t: 'test.secret' })
+  server.send({ t: 'test.public' })
+  expect(handler).toBeCalledTimes(1)
+  expect(handler).toBeCalledWith({ t: 'test.public' })
+
+  socket.send('test.send', { a: 1 })
+  expect(await server.nextMessage).toEqual({
+    t: 'test.send',
+    p: { a: 1, token: 'abc' }
+  })
+
+  // Added middleware runs after, and can be async
+  const remove = socket.use({
+    async incoming(message, next) {
+      await sleep()
+      next({ ...message, t: `${message.t}.later` })
+    }
+  })
+  server.send({ t: 'test.delayed' })
+  expect(handler).toBeCalledTimes(1)
+  await sleep()
+  expect(handler).toBeCalledWith({ t: 'test.delayed.later' })
+  expect(log).toEqual([
+    'in test.secret',
+    'in test.public',
+    'out test.send',
+    'in test.delayed'
+  ])
+  remove()
+  server.send({ t: 'test.direct' })
+  expect(handler).toBeCalledWith({ t: 'test.direct' })
+
+  // Async failures in outgoing middleware reject call
+  socket.use({
+    async outgoing() {
+      throw new Error('Nope')
+    }
+  })
+  await expect(socket.call('test.call')).rejects.toThrow('Nope')
+
+  WS.clean()
+})
+
+test('Socket outgoing middleware delays and drops', async () => {
+  const { server, socket } = await createSocket({
+    middleware: [
+      {
+        async outgoing(message, next) {
+          if (message.t === 'test.drop') return
+          await sleep(30)
+          next(message)
+        }
+      }
+    ]
+  })
+
+  // Timeout starts when actually sent
+  const call = socket.call('test.slow', undefined, { timeout: 20 })
+  expect(await server.nextMessage).toEqual({ t: 'test.slow', i: '1' })
+  server.send({ t: 'test.slow', i: '1', s: 's' })
+  await expect(call).resolves.toEqual({ t: 'test.slow', i: '1', s: 's' })
+
+  // Dropped calls fail right away
+  await expect(socket.call('test.drop')).rejects.toEqual(
+    new EnvelopeError("Message 'test.drop' dropped by middleware")
+  )
+
+  // Closed while middleware was busy
+  const closed = socket.call('test.late')
+  socket.close()
+  await expect(closed).rejects.toBeInstanceOf(NotOpenError)
+
+  WS.clean()
+})
+
+test('Socket codec negotiation', async () => {
+  const server = new WS('ws://localhost:1234', {
+    selectProtocol: (protocols) =>
+      protocols.find((p) => p === 'envelope.msgpack') ?? null
+  })
+  const socket = new Socket('ws://localhost:1234', {
+    codec: [msgpackCodec, jsonCodec]
+  })
+  await server.connected
+  const handler = jest.fn()
+  socket.addTypeHandler('test', handler)
+
+  socket.send('test.send', { a: 1 })
+  expect(unpackMessage((await server.nextMessage) as ArrayBuffer)).toEqual({
+    t: 'test.send',
+    p: { a: 1 }
+  })
+  server.send(packMessage({ t: 'test.message', p: { b: 2 } }).buffer)
+  expect(handler).toBeCalledWith({ t: 'test.message', p: { b: 2 } })
+  WS.clean()
+
+  // Server accepting json
+  const jsonServer = new WS('ws://localhost:1234', {
+    jsonProtocol: true,
+    selectProtocol: () => 'envelope.json'
+  })
+  socket.connect()
+  await jsonServer.connected
+  socket.send('test.send')
+  expect(await jsonServer.nextMessage).toEqual({ t: 'test.send' })
+  WS.clean()
+
+  // Server not negotiating gets its default, json
+  const plainServer = new WS('ws://localhost:1234', {
+    jsonProtocol: true,
+    selectProtocol: () => ''
+  })
+  socket.connect()
+  await plainServer.connected
+  socket.send('test.send')
+  expect(await plainServer.nextMessage).toEqual({ t: 'test.send' })
+  WS.clean()
+})
+
+test('Socket codec negotiation by URL', async () => {
+  const server = new WS('ws://localhost:1234/?format=msgpack')
+  const socket = new Socket('ws://localhost:1234/', {
+    codec: msgpackCodec,
+    codecNegotiation: 'url'
+  })
+  await server.connected
+  socket.send('test.send')
+  expect(unpackMessage((await server.nextMessage) as ArrayBuffer)).toEqual({
+    t: 'test.send'
+  })
+  WS.clean()
+})
+
+test('Socket keepalive', async () => {
+  const { server, socket } = await createSocket({
+    keepalive: { interval: 40, timeout: 40 },
+    reconnect: { baseDelay: 1_000, jitter: 0 }
+  })
+  const readyStateHandler = jest.fn()
+  const reconnectingHandler = jest.fn()
+  socket.on('readyState', readyStateHandler)
+  socket.on('reconnecting', reconnectingHandler)
+
+  // Server answers ping
+  expect(await server.nextMessage).toEqual({ t: 's.ping' })
+  server.send({ t: 's.pong' })
+  await sleep(60)
+  expect(socket.isOpen).toBe(true)
+
+  // No answer closes connection
+  expect(await server.nextMessage).toEqual({ t: 's.ping' })
+  await sleep(60)
+  expect(readyStateHandler).toBeCalledWith({ readyState: WebSocket.CLOSED })
+  expect(reconnectingHandler).toBeCalledWith({ attempt: 1, delay: 1_000 })
+  expect(socket.isOpen).toBe(false)
+
+  socket.close()
+  WS.clean()
+})
+
+test('Socket metrics', async () => {
+  const { server, socket } = await createSocket({
+    metrics: true,
+    config: { timeout: 50 }
+  })
+
+  const success = socket.call('test.call')
+  await server.nextMessage
+  server.send({ t: 'test.call', i: '1', s: 'q' })
+  await sleep(10)
+  server.send({ t: 'test.call', i: '1', s: 'r' })
+  await sleep(10)
+  server.send({ t: 'test.call', i: '1', s: 's' })
+  await success
+
+  const failure = socket.call('test.call')
+  await server.nextMessage
+  server.send({ t: 'test.call', i: '2', s: 'f', p: { msg: 'Nope' } })
+  await expect(failure).rejects.toThrow('Nope')
+  await expect(socket.call('test.timeout')).rejects.toThrow('timed out')
+
+  const snapshot = socket.metrics!.snapshot(true)
+  expect(snapshot).toEqual(
+    expect.objectContaining({ messagesIn: 4, messagesOut: 3, reconnects: 0 })
+  )
+  const callMetrics = snapshot.types['test.call']
+  expect(callMetrics).toEqual(
+    expect.objectContaining({ calls: 2, success: 1, failed: 1, timeouts: 0 })
+  )
+  expect(callMetrics.roundTrip.count).toBe(2)
+  expect(callMetrics.roundTrip.max).toBeGreaterThan(10)
+  expect(callMetrics.queued.count).toBe(1)
+  expect(callMetrics.running.count).toBe(1)
+  expect(callMetrics.running.min).toBeGreaterThan(5)
+  expect(snapshot.types['test.timeout']).toEqual(
+    expect.objectContaining({ calls: 1, timeouts: 1 })
+  )
+  expect(snapshot.types['test.timeout'].roundTrip.count).toBe(0)
+
+  // Reset after snapshot
+  expect(socket.metrics!.snapshot().types).toEqual({})
+  WS.clean()
+})
+
+test('Socket logging', async () => {
+  const logger = {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn()
+  }
+  const { server, socket } = await createSocket({ logger, redact: ['secret'] })
+  expect(logger.info).toBeCalledWith('Connected', { codec: 'json' })
+
+  const promise = socket.call('test.call', { secret: 'abc' })
+  expect(logger.debug).toBeCalledWith('Sent', {
+    t: 'test.call',
+    i: '1',
+    state: undefined,
+    direction: 'out',
+    payload: { secret: '[redacted]' }
+  })
+  await server.nextMessage
+  server.send({ t: 'test.call', i: '1', s: 's' })
+  await promise
+  expect(logger.debug).toBeCalledWith(
+    'Received',
+    expect.objectContaining({ t: 'test.call', state: 's', direction: 'in' })
+  )
+  expect(logger.debug).toBeCalledWith(
+    'Call succeeded',
+    expect.objectContaining({
+      t: 'test.call',
+      i: '1',
+      duration: expect.any(Number)
+    })
+  )
+  expect(logger.warn).toBeCalledWith('No handler for message', {
+    t: 'test.call',
+    i: '1'
+  })
+
+  server.close()
+  expect(logger.info).toBeCalledWith(
+    'Closed',
+    expect.objectContaining({ code: 1000 })
+  )
+  WS.clean()
+})
+
+test('Socket reconnection', async () => {
+  const { server, socket } = await createSocket({
+    reconnect: { baseDelay: 10, jitter: 0 }
+  })
+  const reconnecting = jest.fn()
+  const reconnected = jest.fn()
+  socket.on('reconnecting', reconnecting)
+  socket.on('reconnected', reconnected)
+
+  // Subscribed channels should be subscribed again when reconnected
+  const { promise } = socket.channels.subscribe('test', 1)
+  await server.nextMessage
+  server.send({
+    t: 'channel.subscribed',
+    i: '1',
+    p: { channel_type: 'test', channel_name: 'test_1', pk: 1, app_state: [] },
+    s: 's'
+  })
+  await promise
+
+  server.close({ code: 1006, reason: 'Gone', wasClean: false })
+  expect(reconnecting).toBeCalledWith({ attempt: 1, delay: 10 })
+
+  const newServer = new WS('ws://localhost:1234', { jsonProtocol: true })
+  await newServer.connected
+  expect(reconnected).toBeCalledWith({ attempt: 1 })
+  expect(await newServer.nextMessage).toEqual({
+    t: 'channel.subscribe',
+    i: '2',
+    p: { channel_type: 'test', pk: 1 }
+  })
+  newServer.send({
+    t: 'channel.subscribed',
+    i: '2',
+    p: { channel_type: 'test', channel_name: 'test_1', pk: 1, app_state: [] },
+    s: 's'
+  })
+
+  WS.clean()
+})
+
+test('Socket reconnection backs off until connection is stable', async () => {
+  const { server, socket } = await createSocket({
+    reconnect: { baseDelay: 10, jitter: 0, maxAttempts: 2 }
+  })
+  const reconnecting = jest.fn()
+  socket.on('reconnecting', reconnecting)
+
+  server.close({ code: 1006, reason: 'Gone', wasClean: false })
+  let newServer = new WS('ws://localhost:1234', { jsonProtocol: true })
+  await newServer.connected
+  // Dropped again before any message, so still consecutive attempts
+  newServer.close({ code: 1006, reason: 'Gone', wasClean: false })
+  expect(reconnecting).toBeCalledWith({ attempt: 2, delay: 20 })
+  newServer = new WS('ws://localhost:1234', { jsonProtocol: true })
+  await newServer.connected
+  newServer.close({ code: 1006, reason: 'Gone', wasClean: false })
+  expect(reconnecting).toBeCalledTimes(2)
+  socket.close()
+
+  WS.clean()
+})
+
+test('Socket reconnection stopped by close', async () => {
+  const { server, socket } = await createSocket({
+    reconnect: { baseDelay: 10, jitter: 0 }
+  })
+  const reconnected = jest.fn()
+  socket.on('reconnected', reconnected)
+
+  server.close({ code: 1006, reason: 'Gone', wasClean: false })
+  socket.close()
+  new WS('ws://localhost:1234', { jsonProtocol: true })
+  await sleep(30)
+  expect(reconnected).not.toBeCalled()
+  expect(socket.readyState).toBe(WebSocket.CLOSED)
+
+  WS.clean()
+})
+
+test('Socket reconnection not triggered by normal close', async () => {
+  const { server, socket } = await createSocket({ reconnect: true })
+  const reconnecting = jest.fn()
+  socket.on('reconnecting', reconnecting)
+
+  server.close({ code: 1000, reason: '', wasClean: true })
+  expect(reconnecting).not.toBeCalled()
+
+  WS.clean()
+})
+
+test('Socket call while not open', async () => {
+  const { socket } = await createSocket({ manual: true })
+  await expect(socket.call('test.closed')).rejects.toEqual(
+    new Error('Socket not open (readyState undefined)')
+  )
+  expect(() => socket.send('test.closed')).toThrow('Socket not open')
+  await expect(socket.call('test.closed')).rejects.toBeInstanceOf(NotOpenError)
+
+  WS.clean()
+})
+
+test('Socket call errors', async () => {
+  const { server, socket } = await createSocket()
+
+  const failed = socket.call('test.fail')
+  await server.nextMessage
+  server.send({ t: 'test.fail', i: '1', s: 'f', p: { msg: 'Nope' } })
+  const error = await failed.catch((e) => e)
+  expect(isServerError(error)).toBe(true)
+  expect(error).toEqual(
+    new ServerError({
+      t: 'test.fail',
+      i: '1',
+      s: State.Failed,
+      p: { msg: 'Nope' }
+    })
+  )
+  expect(error.data.p).toEqual({ msg: 'Nope' })
+
+  const invalid = socket.call('test.fail')
+  await server.nextMessage
+  const errors = [{ loc: ['n'], msg: 'Required', type: 'missing' }]
+  server.send({ t: 'test.fail', i: '2', s: 'f', p: { msg: 'Invalid', errors } })
+  await expect(invalid).rejects.toEqual(
+    expect.objectContaining({
+      errors,
+      data: expect.objectContaining({ i: '2' })
+    })
+  )
+  await expect(invalid).rejects.toBeInstanceOf(EnvelopeError)
+
+  // Pending calls are rejected as soon as connection closes
+  const pending = socket.call('test.pending')
+  await server.nextMessage
+  server.close({ code: 4000, reason: 'Bye', wasClean: true })
+  const closed = await pending.catch((e) => e)
+  expect(isConnectionClosedError(closed)).toBe(true)
+  expect(closed).toEqual(expect.objectContaining({ code: 4000, reason: 'Bye' }))
+
+  WS.clean()
+})
+
+test('Socket outbound queue', async () => {
+  const { server, socket } = await createSocket({ manual: true, queue: true })
+
+  const promise = socket.call('test.queued', { n: 1 })
+  socket.send('test.queued', { n: 2 })
+  socket.connect()
+  await server.connected
+  expect(await server.nextMessage).toEqual({
+    t: 'test.queued',
+    i: '1',
+    p: { n: 1 }
+  })
+  expect(await server.nextMessage).toEqual({ t: 'test.queued', p: { n: 2 } })
+  server.send({ t: 'test.queued', i: '1', s: 's' })
+  expect(await promise).toEqual(expect.objectContaining({ i: '1' }))
+
+  WS.clean()
+})
+
+test('Socket outbound queue discarded on close', async () => {
+  const { socket } = await createSocket({ manual: true, queue: true })
+  const queued = socket.call('test.queued')
+  socket.close()
+  await expect(queued).rejects.toEqual(
+    new ConnectionClosedError('Socket closed')
+  )
+
+  WS.clean()
+})
+
+test('Socket outbound queue with failing middleware', async () => {
+  const { server, socket } = await createSocket({
+    manual: true,
+    queue: true,
+    middleware: [
+      {
+        outgoing(message, next) {
+          if (message.t === 'test.bad') throw new Error('Bad message')
+          next(message)
+        }
+      }
+    ]
+  })
+
+  const bad = socket.call('test.bad')
+  const good = socket.call('test.good')
+  socket.connect()
+  await server.connected
+  await expect(bad).rejects.toThrow('Bad message')
+  expect(await server.nextMessage).toEqual({ t: 'test.good', i: '2' })
+  server.send({ t: 'test.good', i: '2', s: 's' })
+  await expect(good).resolves.toEqual(expect.objectContaining({ i: '2' }))
+
+  WS.clean()
+})
+
+test('Socket outbound queue limits', async () => {
+  const { socket } = await createSocket({
+    manual: true,
+    queue: { maxSize: 1, ttl: 5 }
+  })
+
+  const expiring = socket.call('test.expiring')
+  await expect(socket.call('test.full')).rejects.toEqual(
+    new EnvelopeError('Outbound queue full (1 messages)')
+  )
+  await expect(expiring).rejects.toEqual(
+    new TimeoutError("Message 'test.expiring' expired in outbound queue")
+  )
+  // Per message ttl
+  const start = Date.now()
+  await expect(socket.call('test.ttl', {}, { ttl: 20 })).rejects.toBeInstanceOf(
+    TimeoutError
+  )
+  expect(Date.now() - start).toBeGreaterThanOrEqual(19)
+
+  WS.clean()
+})
+
+test('Socket call abort', async () => {
+  const { server, socket } = await createSocket()
+
+  const controller = new AbortController()
+  const promise = socket.call('test.long', undefined, {
+    signal: controller.signal,
+    cancelType: 'test.cancel'
+  })
+  await server.nextMessage
+  server.send({ t: 'test.long', i: '1', s: 'r', p: { curr: 1, total: 10 } })
+  controller.abort()
+  await expect(promise).rejects.toBeInstanceOf(AbortError)
+  expect(await server.nextMessage).toEqual({ t: 'test.cancel', i: '1' })
+
+  // Already aborted
+  await expect(
+    socket.call('test.aborted', undefined, { signal: controller.signal })
+  ).rejects.toBeInstanceOf(AbortError)
+
+  WS.clean()
+})
+
+test('Socket call abort while queued', async () => {
+  const { server, socket } = await createSocket({ manual: true, queue: true })
+
+  const controller = new AbortController()
+  const aborted = socket.call('test.aborted', undefined, {
+    signal: controller.signal,
+    cancelType: 'test.cancel'
+  })
+  socket.send('test.sent')
+  controller.abort('Changed my mind')
+  await expect(aborted).rejects.toEqual(
+    expect.objectContaining({ reason: 'Changed my mind' })
+  )
+  socket.connect()
+  await server.connected
+  // Aborted message was never sent, so no need to cancel it
+  expect(await server.nextMessage).toEqual({ t: 'test.sent' })
+  expect(server.messages.length).toBe(1)
+
+  WS.clean()
+})
+
+test('Socket typed messages', async () => {
+  const { server, socket } = await createSocket()
+
+  // @ts-expect-error Payload is required for registered type
+  socket.send('channel.leave')
+  expect(await server.nextMessage).toEqual({ t: 'channel.leave' })
+
+  const promise = socket.call('channel.subscribe', {
+    channel_type: 'test',
+    pk: 1
+  })
+  await server.nextMessage
+  server.send({
+    t: 'channel.subscribed',
+    i: '1',
+    p: { channel_type: 'test', channel_name: 'test_1', pk: 1, app_state: [] },
+    s: 's'
+  })
+  // Response payload type is known from registry
+  const { p } = await promise
+  expect(p.channel_name).toBe('test_1')
+
+  WS.clean()
+})
+
+test('Socket payload validation', async () => {
+  const isItem = (p: any): p is { n: number } => typeof p?.n === 'number'
+  const { server, socket } = await createSocket({
+    validators: {
+      'test.item': {
+        validate: (p) =>
+          isItem(p)
+            ? { success: true, data: { n: p.n * 2 } }
+            : { success: false, error: 'Not an item' }
+      }
+    }
+  })
+  const handler = jest.fn()
+  const invalidHandler = jest.fn()
+  socket.addTypeHandler('test', handler)
+  socket.on('invalidMessage', invalidHandler)
+
+  server.send({ t: 'test.item', p: { n: 1 } })
+  expect(handler).toBeCalledWith({ t: 'test.item', p: { n: 2 } })
+  server.send({ t: 'test.item', p: { n: '1' } })
+  expect(handler).toBeCalledTimes(1)
+  expect(invalidHandler).toBeCalledWith({
+    message: { t: 'test.item', p: { n: '1' } },
+    error: 'Not an item'
+  })
+
+  // Batch payloads are validated individually
+  server.send({
+    t: 's.batch',
+    i: null,
+    p: { t: 'test.item', payloads: [{ n: 2 }, null] }
+  })
+  expect(handler).toBeCalledTimes(2)
+  expect(handler).toBeCalledWith({ t: 'test.item', i: null, p: { n: 4 } })
+
+  // Calls are rejected
+  const promise = socket.call('test.item')
+  await server.nextMessage
+  server.send({ t: 'test.item', i: '1', s: 's', p: {} })
+  await expect(promise).rejects.toBeInstanceOf(InvalidPayloadError)
+
+  WS.clean()
+})
+
+// Records URLs that sockets connect to
+function recordUrls() {
+  const urls: string[] = []
+  class RecordingWebSocket extends WebSocket {
+    constructor(url: string | URL, protocols?: string | string[]) {
+      super(url, protocols)
+      urls.push(String(url))
+    }
+  }
+  return { urls, WebSocket: RecordingWebSocket }
+}
+
+test('Socket auth token refresh', async () => {
+  const token = jest.fn((refresh: boolean) => (refresh ? 'fresh' : 'stale'))
+  const authFailed = jest.fn()
+  const { urls, WebSocket } = recordUrls()
+  const server = new WS('ws://localhost:1234/')
+  const socket = new Socket('ws://localhost:1234/', {
+    auth: { token },
+    WebSocket
+  })
+  socket.on('authFailed', authFailed)
+  await server.connected
+  expect(token).toBeCalledWith(false)
+  expect(urls).toEqual(['ws://localhost:1234/?token=stale'])
+
+  // Rejected token is refreshed once
+  server.close({ code: 4401, reason: 'Token expired', wasClean: true })
+  const newServer = new WS('ws://localhost:1234/')
+  await newServer.connected
+  expect(token).toBeCalledWith(true)
+  expect(urls[1]).toBe('ws://localhost:1234/?token=fresh')
+  expect(authFailed).not.toBeCalled()
+
+  // Fresh token rejected too, so give up
+  newServer.close({ code: 4401, reason: 'Token expired', wasClean: true })
+  await sleep()
+  expect(authFailed).toBeCalledWith({ code: 4401, reason: 'Token expired' })
+  expect(token).toBeCalledTimes(2)
+  expect(socket.readyState).toBe(WebSocket.CLOSED)
+
+  WS.clean()
+})
+
+test('Socket auth URL provider', async () => {
+  let ticket = 0
+  const url = jest.fn(async () => {
+    if (++ticket === 2) throw new Error('Token endpoint offline')
+    return `ws://localhost:1234/?ticket=${ticket}`
+  })
+  const authFailed = jest.fn()
+  const { urls, WebSocket } = recordUrls()
+  const logger = {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn()
+  }
+  const server = new WS('ws://localhost:1234/')
+  const socket = new Socket('ws://localhost:1234/', {
+    auth: { url },
+    logger,
+    reconnect: { baseDelay: 10, jitter: 0 },
+    WebSocket
+  })
+  socket.on('authFailed', authFailed)
+  await server.connected
+  // Credentials are not logged
+  expect(logger.info).toBeCalledWith('Connecting', {
+    url: 'ws://localhost:1234/'
+  })
+
+  // Called for every connection attempt, provider failure is retried
+  server.close({ code: 1006, reason: 'Gone', wasClean: false })
+  const newServer = new WS('ws://localhost:1234/')
+  await newServer.connected
+  expect(authFailed).toBeCalledWith({
+    error: new Error('Token endpoint offline')
+  })
+  expect(url).toBeCalledTimes(3)
+  expect(urls).toEqual([
+    'ws://localhost:1234/?ticket=1',
+    'ws://localhost:1234/?ticket=3'
+  ])
+  socket.close()
+
+  WS.clean()
+})
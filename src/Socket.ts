@@ -1,27 +1,123 @@
 import ProgressPromise from './ProgressPromise'
-import { ValidationError } from './errors'
 import {
+  AbortError,
+  ConnectionClosedError,
+  EnvelopeError,
+  InvalidPayloadError,
+  NotOpenError,
+  ServerError,
+  TimeoutError,
+  ValidationError,
+  toErrorPayload
+} from './errors'
+import CallCache from './callCache'
+import { jsonCodec } from './codecs'
+import HandlerRegistry from './handlers'
+import { createConsoleLogger, createSocketLogger, silentLogger } from './logger'
+import Metrics, { CallOutcome } from './metrics'
+import { runMiddleware } from './middleware'
+import Scheduler from './scheduler'
+import SharedConnection from './shared'
+import {
+  AuthOptions,
   BatchMessage,
   BatchPayload,
+  CallArgs,
   ChannelsConfig,
   ChannelsMessage,
+  CloseCode,
+  Codec,
+  EnvelopeChannel,
+  FailedMessage,
   Heartbeat,
+  KeepaliveOptions,
+  LogFields,
+  Logger,
+  Middleware,
+  MessageType,
+  NamespacePayload,
+  OutgoingMessage,
+  PayloadValidator,
+  PendingCall,
   Progress,
+  ProgressPayload,
+  QueueOptions,
+  QueuedMessage,
+  ReadyState,
+  ReconnectOptions,
+  RegisteredType,
+  RequestHandler,
+  RequestPayload,
+  ResponsePayload,
+  SchedulerOptions,
+  SendArgs,
   SocketEvent,
   SocketEventHandler,
+  SocketEventMap,
   SocketOptions,
   State,
   SubscribedPayload,
   SuccessMessage,
   TypeHandler,
+  WebSocketLike,
   isValidationErrorPayload
 } from './types'
 import useChannels from './useChannels'
+import useSchema from './useSchema'
+import { channelPath, getBackoffDelay } from './utils'
+
+const DEFAULT_AUTH: Required<
+  Pick<AuthOptions, 'tokenParam' | 'closeCodes' | 'refresh'>
+> = {
+  tokenParam: 'token',
+  closeCodes: [1008, 4401, 4403],
+  refresh: true
+}
 
 const DEFAULT_CONFIG: ChannelsConfig = {
   timeout: 20_000 // 20 s, longer than server's 15 s
 }
 
+const DEFAULT_QUEUE: Required<QueueOptions> = {
+  maxSize: 100,
+  ttl: 10_000
+}
+
+const DEFAULT_RECONNECT: Required<ReconnectOptions> = {
+  baseDelay: 1_000,
+  maxDelay: 30_000,
+  jitter: 0.5,
+  maxAttempts: Infinity,
+  shouldReconnect: ({ code }) => code !== 1000,
+  stableAfter: 5_000
+}
+
+const DEFAULT_KEEPALIVE: Required<KeepaliveOptions> = {
+  interval: 30_000,
+  timeout: 10_000,
+  pingType: 's.ping'
+}
+
+const DEFAULT_SCHEDULER: Required<SchedulerOptions> = {
+  maxInFlight: 10,
+  perSecond: 20
+}
+
+function messageFields(
+  msg: ChannelsMessage | OutgoingMessage,
+  direction: LogFields['direction']
+): LogFields {
+  const channel = 'channel' in msg && msg.channel
+  return {
+    t: msg.t,
+    i: msg.i,
+    state: msg.s,
+    direction,
+    ...(channel ? { channel: channelPath(channel) } : {}),
+    payload: msg.p
+  }
+}
+
 function isBatchMessage(msg: ChannelsMessage): msg is BatchMessage {
   return msg.t === 's.batch'
 }
@@ -35,34 +131,100 @@ function isSubscribedMessage(
 export default class Socket {
   public messageID: number = 0
 
-  private callbacks: Map<string, (data: ChannelsMessage) => void>
+  // Retrying with fresh credentials, after they were rejected
+  private authRefreshed = false
+  private callbacks: Map<string, PendingCall>
+  private callCache: CallCache
   private callConfig: ChannelsConfig
-  // Actually only one event at this time, so this simple syntax works
-  private eventHandlers: Record<SocketEvent, SocketEventHandler[]>
+  private codec: Codec
+  private codecs: Codec[]
+  // Increased for each connection attempt, to ignore credentials arriving late
+  private connectID = 0
+  private eventHandlers: { [E in SocketEvent]: SocketEventHandler<E>[] }
   private heartbeats: Heartbeat[]
+  private keepaliveTimeout?: NodeJS.Timeout
+  private middleware: Middleware[]
   private options: SocketOptions
+  private outbox: QueuedMessage[]
+  private queueOptions?: Required<QueueOptions>
   private _readyState?: WebSocket['readyState']
-  private typeHandlers: Partial<Record<string, TypeHandler[]>>
+  private reconnectAttempt: number = 0
+  private requestHandlers = new Map<string, RequestHandler>()
+  private reconnectOptions?: Required<ReconnectOptions>
+  private reconnectTimeout?: NodeJS.Timeout
+  private scheduler?: Scheduler
+  private stableTimeout?: NodeJS.Timeout
+  private typeHandlers: HandlerRegistry
   private url: string | URL
-  private ws?: WebSocket
+  private validators: Partial<Record<string, PayloadValidator>>
+  private ws?: WebSocketLike
   public channels: ReturnType<typeof useChannels>
+  public logger: Logger
+  public metrics?: Metrics
+  public schema: ReturnType<typeof useSchema>
+  public shared?: SharedConnection
 
   constructor(url: string | URL, opts?: SocketOptions) {
     this.callbacks = new Map()
+    this.callCache = new CallCache()
     this.callConfig = { ...DEFAULT_CONFIG, ...opts?.config }
+    this.codecs = opts?.codec ? [opts.codec].flat() : [jsonCodec]
+    this.codec = this.codecs[0]
     this.eventHandlers = {
-      readyState: []
+      readyState: [],
+      reconnecting: [],
+      reconnected: [],
+      invalidMessage: [],
+      authFailed: []
     }
     this.heartbeats = []
+    this.logger = createSocketLogger(
+      opts?.logger ??
+        (opts?.debug ? createConsoleLogger('debug') : silentLogger),
+      opts?.redact
+    )
+    if (opts?.metrics) this.metrics = new Metrics()
+    this.middleware = [...(opts?.middleware ?? [])]
     this.options = opts || {}
-    this.channels = useChannels(this)
-    this.typeHandlers = {}
+    this.outbox = []
+    if (opts?.queue)
+      this.queueOptions = {
+        ...DEFAULT_QUEUE,
+        ...(opts.queue === true ? {} : opts.queue)
+      }
+    // Tabs must agree on wire format
+    if (opts?.shared) this.codecs = this.codecs.slice(0, 1)
+    // Shared sockets reconnect through new leader
+    const reconnect = opts?.reconnect ?? !!opts?.shared
+    if (reconnect)
+      this.reconnectOptions = {
+        ...DEFAULT_RECONNECT,
+        ...(reconnect === true ? {} : reconnect)
+      }
+    if (opts?.scheduler)
+      this.scheduler = new Scheduler(
+        {
+          ...DEFAULT_SCHEDULER,
+          ...(opts.scheduler === true ? {} : opts.scheduler)
+        },
+        (queued) => this.dispatchScheduled(queued)
+      )
+    this.channels = useChannels(this, opts?.subscriptions)
+    this.schema = useSchema(this, opts?.schema)
+    this.typeHandlers = new HandlerRegistry()
     this.url = url
+    this.validators = { ...opts?.validators }
+    if (opts?.keepalive)
+      this.setupKeepalive({
+        ...DEFAULT_KEEPALIVE,
+        ...(opts.keepalive === true ? {} : opts.keepalive)
+      })
     if (!opts?.manual) this.connect()
 
     // 's' == system
     this.addTypeHandler('s', (message) => {
-      if (isBatchMessage(message)) this.handleBatchMessage(message.p, message.i)
+      if (isBatchMessage(message))
+        this.handleBatchMessage(message.p, message.i, message.channel)
     })
   }
 
@@ -72,27 +234,44 @@ export default class Socket {
 
   // Batch messages allows sending a group of messages that are handled in the same tick,
   // to avoid triggering Vue component updates on each added object
-  private handleBatchMessage({ t, payloads }: BatchPayload, i: string | null) {
-    const [contentType] = t.split('.')
-    // const listener = this.typeListeners.get(contentType)
-    const handlers = this.typeHandlers[contentType]
-    if (!handlers) {
-      if (this.options.debug)
-        console.warn(`No handlers registered for batch message ${t}`)
+  private handleBatchMessage(
+    { t, payloads }: BatchPayload,
+    i: string | null,
+    channel?: EnvelopeChannel
+  ) {
+    this.callCache.handleMessage(t, i)
+    const handlers = this.getTypeHandlers(t, channel)
+    if (!handlers.length) {
+      this.logger.warn('No handlers registered for batch message', { t, i })
       return
     }
-    for (const handler of handlers)
-      for (const p of payloads) handler({ t, i, p })
+    const messages: ChannelsMessage[] = []
+    for (const p of payloads) {
+      const msg = this.validate(channel ? { t, i, p, channel } : { t, i, p })
+      if (msg) messages.push(msg)
+    }
+    for (const handler of handlers) for (const msg of messages) handler(msg)
   }
 
-  public on(eventName: SocketEvent, handler: SocketEventHandler) {
+  public on<E extends SocketEvent>(
+    eventName: E,
+    handler: SocketEventHandler<E>
+  ) {
     this.eventHandlers[eventName].push(handler)
   }
 
-  public off(eventName: SocketEvent, handler: SocketEventHandler) {
+  public off<E extends SocketEvent>(
+    eventName: E,
+    handler: SocketEventHandler<E>
+  ) {
+    // Cast needed, since filter can't keep track of E
     this.eventHandlers[eventName] = this.eventHandlers[eventName].filter(
       (_handler) => _handler !== handler
-    )
+    ) as (typeof this.eventHandlers)[E]
+  }
+
+  private emit<E extends SocketEvent>(eventName: E, event: SocketEventMap[E]) {
+    for (const handler of this.eventHandlers[eventName]) handler(event)
   }
 
   /**
@@ -105,93 +284,570 @@ export default class Socket {
   //   this.typeListeners.set(name, listener)
   // }
 
-  public addTypeHandler(name: string, handler: TypeHandler) {
-    let handlers = this.typeHandlers[name] || []
-    // Check if already registered?
-    if (handlers.find((h) => h === handler)) return
-    this.typeHandlers[name] = [...handlers, handler]
+  /**
+   * Registers a type handler.
+   * Pattern can be a namespace ('poll' matches 'poll.added' and 'poll.option.added'), an exact type,
+   * or use wildcards: '*' for one segment and '**' for any number of segments ('poll.*.closed').
+   * When several handlers match, the most specific pattern is called first.
+   * @param name Type pattern
+   * @param handler Type handler
+   * @returns Function to remove handler
+   */
+  public addTypeHandler<N extends string>(
+    name: N,
+    handler: TypeHandler<NamespacePayload<N>>
+  ) {
+    return this.typeHandlers.add(name, handler as TypeHandler)
   }
 
-  public removeTypeHandler(name: string, handler: TypeHandler) {
-    const handlers = this.typeHandlers[name]
-    if (!handlers) return
-    this.typeHandlers[name] = handlers.filter((h) => h !== handler)
+  public removeTypeHandler<N extends string>(
+    name: N,
+    handler: TypeHandler<NamespacePayload<N>>
+  ) {
+    this.typeHandlers.remove(name, handler as TypeHandler)
+  }
+
+  /**
+   * Registers a type handler, only called for messages from a specific channel.
+   * @param channel Channel
+   * @param name Type pattern (as for addTypeHandler)
+   * @param handler Type handler
+   * @returns Function to remove handler
+   */
+  public addChannelHandler<N extends string>(
+    channel: EnvelopeChannel,
+    name: N,
+    handler: TypeHandler<NamespacePayload<N>>
+  ) {
+    return this.typeHandlers.add(
+      name,
+      handler as TypeHandler,
+      channelPath(channel)
+    )
+  }
+
+  public removeChannelHandler<N extends string>(
+    channel: EnvelopeChannel,
+    name: N,
+    handler: TypeHandler<NamespacePayload<N>>
+  ) {
+    this.typeHandlers.remove(name, handler as TypeHandler, channelPath(channel))
+  }
+
+  /**
+   * Type handlers for message type, including handlers for channel (if any)
+   */
+  private getTypeHandlers(t: string, channel?: EnvelopeChannel) {
+    return this.typeHandlers.get(t, channel && channelPath(channel))
   }
 
   private updateReadyState() {
     if (this.readyState === undefined || this._readyState === this.readyState)
       return
     this._readyState = this.readyState
-    for (const handler of this.eventHandlers.readyState)
-      handler({ readyState: this.readyState })
+    this.emit('readyState', { readyState: this.readyState })
   }
 
+  /**
+   * Connect, getting credentials first if there are auth providers
+   */
   public connect() {
-    this.ws = new WebSocket(this.url)
+    clearTimeout(this.reconnectTimeout)
+    // Join again if shared connection was closed
+    if (this.options.shared && (!this.shared || this.shared.isClosed))
+      this.shared = this.joinShared()
+    const auth = this.options.auth
+    if (!auth?.url && !auth?.token) return this.open(this.url)
+    const connectID = ++this.connectID
+    this.getCredentials(auth, this.authRefreshed).then(
+      ({ url, token }) => {
+        // Closed, or connecting again, while waiting
+        if (connectID === this.connectID) this.open(url, token)
+      },
+      (error) => {
+        if (connectID !== this.connectID) return
+        this.logger.error('Failed to get credentials', { error })
+        this.emit('authFailed', { error })
+        // Might be temporary, so handled as a failed connection attempt
+        this.scheduleReconnect({
+          code: 1006,
+          reason: 'Failed to get credentials',
+          wasClean: false
+        } as CloseEvent)
+      }
+    )
+  }
+
+  private joinShared() {
+    const { shared } = this.options
+    return new SharedConnection({
+      name: `envelope:${this.url}`,
+      ...(shared === true ? {} : shared),
+      codec: this.codec,
+      getMessageChannel: (msg) => this.options.getMessageChannel?.(msg),
+      logger: this.logger,
+      WebSocket: this.options.WebSocket
+    })
+  }
+
+  // Hands over leadership, if leader. Joined again on connect.
+  private leaveShared() {
+    this.shared?.close()
+    this.shared = undefined
+  }
+
+  private async getCredentials({ url, token }: AuthOptions, refresh: boolean) {
+    return {
+      url: url ? await url(refresh) : this.url,
+      token: token ? await token(refresh) : undefined
+    }
+  }
+
+  private open(url: string | URL, token?: string) {
+    const negotiation =
+      this.options.codecNegotiation ??
+      (this.codecs.length > 1 ? 'subprotocol' : undefined)
+    this.codec = this.codecs[0]
+    const WebSocketImpl =
+      this.shared?.WebSocket ?? this.options.WebSocket ?? WebSocket
+    // Query may hold credentials, from auth providers or baked in
+    this.logger.info('Connecting', { url: String(url).split(/[?#]/)[0] })
+    if (negotiation === 'url' || token !== undefined) {
+      url = new URL(url, globalThis.location?.href)
+      if (negotiation === 'url') url.searchParams.set('format', this.codec.name)
+      if (token !== undefined)
+        url.searchParams.set(
+          this.options.auth?.tokenParam ?? DEFAULT_AUTH.tokenParam,
+          token
+        )
+    }
+    this.ws =
+      negotiation === 'subprotocol'
+        ? new WebSocketImpl(
+            url,
+            this.codecs.map((codec) => `envelope.${codec.name}`)
+          )
+        : new WebSocketImpl(url)
+    if (this.codecs.some((codec) => codec.binary))
+      this.ws.binaryType = 'arraybuffer'
     this.updateReadyState()
 
     this.ws.onerror = this.updateReadyState.bind(this)
-    this.ws.onclose = () => {
-      this.updateReadyState()
-      this.heartbeat('off')
-    }
+    this.ws.onclose = this.handleClose.bind(this)
     this.ws.onopen = () => {
+      // Server picks from the subprotocols we offered, or none if it doesn't negotiate (then it speaks JSON)
+      if (negotiation === 'subprotocol')
+        this.codec =
+          this.codecs.find(
+            (codec) => `envelope.${codec.name}` === this.ws!.protocol
+          ) ?? jsonCodec
+      this.logger.info('Connected', { codec: this.codec.name })
       this.updateReadyState()
       this.heartbeat('incoming')
       this.heartbeat('outgoing')
+      this.flushOutbox()
+      if (this.reconnectAttempt) {
+        this.emit('reconnected', { attempt: this.reconnectAttempt })
+        this.metrics?.reconnected()
+        // Servers may accept and then drop connections, so keep backing off until it's stable
+        this.stableTimeout = setTimeout(
+          () => this.resetReconnect(),
+          this.reconnectOptions?.stableAfter
+        )
+      }
     }
     this.ws.onmessage = (event) => {
+      // Server is talking to us, so credentials were accepted
+      this.authRefreshed = false
+      if (this.reconnectAttempt) this.resetReconnect()
       this.updateReadyState()
       this.heartbeat('incoming')
-      const msg: ChannelsMessage = JSON.parse(event.data)
-      // If there's a listener for message identifier
-      if (msg.i) this.callbacks.get(msg.i)?.(msg)
-      // If it's a subscribed response, handle any app_state
-      if (isSubscribedMessage(msg)) {
-        // Send before app state event
-        this.options.beforeAppStateHandler?.({
-          channelType: msg.p.channel_type,
-          pk: msg.p.pk
-        })
-        for (const payload of msg.p.app_state ?? [])
-          this.handleTypeMessage(payload)
+      // Connection is alive
+      this.clearKeepalive()
+      this.metrics?.messageIn()
+      runMiddleware(
+        this.middleware.flatMap((m) => m.incoming ?? []),
+        this.codec.decode(event.data),
+        (message) => this.handleMessage(message),
+        (error) => this.logger.error('Incoming middleware failed', { error })
+      )
+    }
+  }
+
+  /**
+   * Register middleware, after any already registered (or before, if position is 'first').
+   * @returns Function to remove middleware
+   */
+  public use(middleware: Middleware, position: 'first' | 'last' = 'last') {
+    if (position === 'first') this.middleware.unshift(middleware)
+    else this.middleware.push(middleware)
+    return () => {
+      this.middleware = this.middleware.filter((m) => m !== middleware)
+    }
+  }
+
+  private handleMessage(message: ChannelsMessage) {
+    this.logger.debug('Received', messageFields(message, 'in'))
+    const msg = this.validate(message)
+    if (!msg) return
+    // If there's a listener for message identifier
+    if (msg.i) this.callbacks.get(msg.i)?.receive(msg)
+    // If it's a subscribed response, handle any app_state
+    if (isSubscribedMessage(msg)) {
+      // Send before app state event
+      this.options.beforeAppStateHandler?.({
+        channelType: msg.p.channel_type,
+        pk: msg.p.pk
+      })
+      const channel = { channel_type: msg.p.channel_type, pk: msg.p.pk }
+      for (const payload of msg.p.app_state ?? []) {
+        const validated = this.validate({ ...payload, channel })
+        if (validated) this.handleTypeMessage(validated)
       }
-      // Else handle type message
-      else this.handleTypeMessage(msg)
     }
+    // Else handle type message
+    else {
+      const channel = this.options.getMessageChannel?.(msg)
+      this.handleTypeMessage(channel ? { ...msg, channel } : msg)
+    }
+  }
+
+  public addValidator<K extends MessageType>(
+    t: K,
+    validator: PayloadValidator<ResponsePayload<K>>
+  ) {
+    this.validators[t] = validator
+  }
+
+  public removeValidator(t: MessageType) {
+    delete this.validators[t]
+  }
+
+  /**
+   * Runs validator for message type, if any. Only success payloads are validated.
+   * Invalid messages reject any pending call and emit an invalidMessage event.
+   * @param msg Incoming message
+   * @returns Message with validated payload, or undefined if invalid
+   */
+  private validate(msg: ChannelsMessage): ChannelsMessage | undefined {
+    const validator = this.validators[msg.t]
+    if (!validator || (msg.s && msg.s !== State.Success)) return msg
+    const result = validator.validate(msg.p)
+    if (result.success) return { ...msg, p: result.data }
+    const pending = msg.i ? this.callbacks.get(msg.i) : undefined
+    this.logger.warn('Invalid payload', {
+      ...messageFields(msg, 'in'),
+      error: result.error
+    })
+    pending?.reject(new InvalidPayloadError(msg, result.error))
+    this.emit('invalidMessage', { message: msg, error: result.error })
+  }
+
+  private handleClose(event: CloseEvent) {
+    this.logger.info('Closed', { code: event.code, reason: event.reason })
+    this.updateReadyState()
+    this.heartbeat('off')
+    this.clearKeepalive()
+    // Invalidating messages may be missed while disconnected
+    this.callCache.invalidate()
+    // Before rejecting, since that frees scheduler slots
+    this.unschedule()
+    this.rejectPending(
+      new ConnectionClosedError(undefined, event.code, event.reason)
+    )
+    if (this.isAuthFailure(event)) return this.handleAuthFailure(event)
+    this.scheduleReconnect(event)
+  }
+
+  private isAuthFailure({ code }: CloseEvent) {
+    const auth = this.options.auth
+    return !!auth && (auth.closeCodes ?? DEFAULT_AUTH.closeCodes).includes(code)
+  }
+
+  /**
+   * Server rejected credentials. Retry once with fresh credentials, if there are providers.
+   * Otherwise give up, without reconnecting.
+   */
+  private handleAuthFailure({ code, reason }: CloseEvent) {
+    const auth = this.options.auth!
+    const canRefresh =
+      (auth.refresh ?? DEFAULT_AUTH.refresh) && (auth.url || auth.token)
+    if (canRefresh && !this.authRefreshed) {
+      this.logger.info('Credentials rejected, refreshing', { code, reason })
+      this.authRefreshed = true
+      return this.connect()
+    }
+    this.logger.warn('Authentication failed', { code, reason })
+    this.authRefreshed = false
+    this.reconnectAttempt = 0
+    this.emit('authFailed', { code, reason })
+  }
+
+  /**
+   * Close without waiting for closing handshake, that will never complete on a dead connection.
+   * Handled as a closed connection, so reconnection kicks in.
+   */
+  private forceClose(code: CloseCode, reason: string) {
+    const ws = this.ws
+    if (!ws) return
+    ws.onopen = null
+    ws.onmessage = null
+    ws.onerror = null
+    ws.onclose = null
+    ws.close(code, reason)
+    this.logger.warn('Force closed', { code, reason })
+    // Socket stays in closing state, but for us it's closed
+    this._readyState = ReadyState.Closed
+    this.emit('readyState', { readyState: ReadyState.Closed })
+    this.heartbeat('off')
+    this.clearKeepalive()
+    this.callCache.invalidate()
+    this.unschedule()
+    this.rejectPending(new ConnectionClosedError(undefined, code, reason))
+    this.scheduleReconnect({ code, reason, wasClean: false } as CloseEvent)
+  }
+
+  /**
+   * Calls that have been sent will never get a response on a closed connection
+   */
+  private rejectPending(error: ConnectionClosedError) {
+    for (const pending of [...this.callbacks.values()])
+      if (pending.sent) pending.reject(error)
+  }
+
+  private clearKeepalive() {
+    clearTimeout(this.keepaliveTimeout)
+    this.keepaliveTimeout = undefined
+  }
+
+  private setupKeepalive({
+    interval,
+    timeout,
+    pingType
+  }: Required<KeepaliveOptions>) {
+    this.addHeartbeat(
+      () => {
+        // Already waiting for pong
+        if (!this.isOpen || this.keepaliveTimeout) return
+        this.logger.debug('Sending keepalive ping')
+        // Should not wait behind other messages
+        this.transmit({ t: pingType }, { priority: Infinity })
+        this.keepaliveTimeout = setTimeout(
+          () =>
+            this.forceClose(CloseCode.KeepaliveTimeout, 'Keepalive timeout'),
+          timeout
+        )
+      },
+      interval,
+      'incoming'
+    )
+  }
+
+  // Connection works, start over with backoff
+  private resetReconnect() {
+    clearTimeout(this.stableTimeout)
+    this.reconnectAttempt = 0
+  }
+
+  private scheduleReconnect(event: CloseEvent) {
+    clearTimeout(this.stableTimeout)
+    const opts = this.reconnectOptions
+    if (
+      !opts ||
+      this.reconnectAttempt >= opts.maxAttempts ||
+      !opts.shouldReconnect(event)
+    )
+      return
+    const attempt = ++this.reconnectAttempt
+    const delay = getBackoffDelay(attempt, opts)
+    this.logger.info('Reconnecting', { attempt, delay })
+    this.emit('reconnecting', { attempt, delay })
+    this.metrics?.reconnectAttempt()
+    this.reconnectTimeout = setTimeout(() => this.connect(), delay)
   }
 
   private handleTypeMessage(msg: ChannelsMessage) {
     if (!msg.t) return
-    const type = msg.t.split('.')[0]
-    const handlers = this.typeHandlers[type] || []
-    if (this.options.debug && !handlers.length)
-      console.warn(`No handler for message of type '${type}'`)
+    // Before handlers, so they can fetch fresh data
+    this.callCache.handleMessage(msg.t, msg.i)
+    // Requests from server, not responses to our calls
+    const requestHandler = msg.s ? undefined : this.requestHandlers.get(msg.t)
+    if (requestHandler) this.handleRequest(msg, requestHandler)
+    const handlers = this.getTypeHandlers(msg.t, msg.channel)
+    if (!handlers.length && !requestHandler)
+      this.logger.warn('No handler for message', { t: msg.t, i: msg.i })
     for (const handler of handlers) {
       handler(msg)
     }
   }
 
   public close() {
+    // Stops any reconnection attempts
+    clearTimeout(this.reconnectTimeout)
+    this.resetReconnect()
+    // Ignore credentials that are on their way
+    this.connectID++
+    this.authRefreshed = false
+    this.heartbeat('off')
+    this.clearKeepalive()
+    this.callCache.invalidate()
     // Unregister listeners here?
-    if (!this.ws) return
-    this.ws.onopen = () => {
-      throw new Error('Undead socket detected')
+    if (this.ws) {
+      this.logger.info('Closing')
+      this.ws.onopen = () => {
+        throw new Error('Undead socket detected')
+      }
+      this.ws.onmessage = null
+      this.ws.onerror = null
+      this.ws.onclose = null
+      this.ws.close()
     }
-    this.ws.onmessage = null
-    this.ws.onerror = null
-    this.ws.onclose = null
-    this.ws.close()
+    this.leaveShared()
     this.updateReadyState()
+    // Queued messages will never be sent, even if socket never connected
+    const waiting = [
+      ...(this.scheduler?.clear() ?? []),
+      ...this.outbox.splice(0)
+    ]
+    this.rejectPending(new ConnectionClosedError('Socket closed'))
+    for (const queued of waiting) {
+      clearTimeout(queued.expireTimeout)
+      queued.onDiscard?.(new ConnectionClosedError('Socket closed'))
+    }
   }
 
   public get isOpen() {
-    return this.readyState === WebSocket.OPEN
+    return this.readyState === ReadyState.Open
+  }
+
+  private assertOpen() {
+    if (!this.isOpen) throw new NotOpenError(this.readyState)
+  }
+
+  /**
+   * Send message if socket is open, else add it to outbound queue (if enabled).
+   * Throws if message can neither be sent or queued.
+   * @param message Message to send
+   * @param hooks Callbacks for when message is sent or discarded from queue
+   * @param ttl Time to keep message in queue, if not default
+   * @returns Queue entry, if message was queued
+   */
+  private transmit(
+    message: OutgoingMessage,
+    hooks: Omit<QueuedMessage, 'message' | 'expireTimeout'> = {},
+    ttl?: number
+  ): QueuedMessage | undefined {
+    return this.route({ message, ...hooks }, ttl)
+  }
+
+  /**
+   * Send message, or pass it to scheduler or outbound queue
+   * @returns Message, if it's waiting to be sent
+   */
+  private route(
+    queued: QueuedMessage,
+    ttl?: number
+  ): QueuedMessage | undefined {
+    if (this.isOpen) {
+      if (this.scheduler?.schedule(queued)) return queued
+      if (!this.scheduler) this.dispatch(queued)
+      return
+    }
+    if (!this.queueOptions) {
+      this.assertOpen()
+      return
+    }
+    if (this.outbox.length >= this.queueOptions.maxSize)
+      throw new EnvelopeError(
+        `Outbound queue full (${this.outbox.length} messages)`
+      )
+    queued.expireTimeout = setTimeout(() => {
+      this.unqueue(queued)
+      queued.onDiscard?.(
+        new TimeoutError(
+          `Message '${queued.message.t}' expired in outbound queue`
+        )
+      )
+    }, ttl ?? this.queueOptions.ttl)
+    this.outbox.push(queued)
+    return queued
   }
 
-  private async assertOpen() {
-    if (!this.isOpen)
-      throw new Error(`Socket not open (readyState ${this.readyState})`)
+  private dispatch(queued: QueuedMessage) {
+    const { message, onSent, onDiscard } = queued
+    runMiddleware(
+      this.middleware.flatMap((m) => m.outgoing ?? []),
+      message,
+      (msg) => {
+        try {
+          // Connection might have been lost while middleware was busy
+          this.assertOpen()
+          this.heartbeat('outgoing')
+          this.ws!.send(this.codec.encode(msg))
+        } catch (error) {
+          return this.discard(queued, error)
+        }
+        this.logger.debug('Sent', messageFields(msg, 'out'))
+        this.metrics?.messageOut()
+        onSent?.()
+      },
+      (error) => this.discard(queued, error),
+      () => {
+        this.logger.debug(
+          'Dropped by middleware',
+          messageFields(message, 'out')
+        )
+        onDiscard?.(
+          new EnvelopeError(`Message '${message.t}' dropped by middleware`)
+        )
+      }
+    )
+  }
+
+  private discard({ message, onDiscard }: QueuedMessage, error: unknown) {
+    if (!onDiscard)
+      return this.logger.error('Outgoing message failed', {
+        ...messageFields(message, 'out'),
+        error
+      })
+    onDiscard(error instanceof Error ? error : new Error(String(error)))
+  }
+
+  // Sent by scheduler, after waiting
+  private dispatchScheduled(queued: QueuedMessage) {
+    try {
+      this.dispatch(queued)
+    } catch (error) {
+      this.discard(queued, error)
+    }
+  }
+
+  private unqueue(queued: QueuedMessage) {
+    clearTimeout(queued.expireTimeout)
+    this.outbox = this.outbox.filter((q) => q !== queued)
+    this.scheduler?.remove(queued)
+  }
+
+  private flushOutbox() {
+    while (this.isOpen && this.outbox.length) {
+      const queued = this.outbox.shift()!
+      clearTimeout(queued.expireTimeout)
+      try {
+        this.route(queued)
+      } catch (error) {
+        this.discard(queued, error)
+      }
+    }
+  }
+
+  // Messages waiting in scheduler go to outbound queue, if enabled, or are discarded
+  private unschedule() {
+    for (const queued of this.scheduler?.clear() ?? [])
+      try {
+        this.route(queued)
+      } catch (error) {
+        this.discard(queued, error)
+      }
   }
 
   /**
@@ -201,74 +857,189 @@ export default class Socket {
    * @param p payload
    * @returns ProgressPromise
    */
+  public call<K extends MessageType>(
+    t: K,
+    ...args: CallArgs<K>
+  ): ProgressPromise<SuccessMessage<ResponsePayload<K>>, ProgressPayload<K>>
+  // Untyped, for message types not in MessageRegistry
+  public call<
+    T,
+    PT extends Progress = Progress,
+    K extends MessageType = MessageType
+  >(
+    t: K extends RegisteredType ? never : K,
+    p?: object,
+    config?: ChannelsConfig
+  ): ProgressPromise<SuccessMessage<T>, PT>
   public call<T, PT extends Progress = Progress>(
     t: string,
-    p?: object,
+    p?: unknown,
     config?: ChannelsConfig
+  ): ProgressPromise<SuccessMessage<T>, PT> {
+    const myConfig: ChannelsConfig = { ...this.callConfig, ...config }
+    const { cacheTtl, dedupe, invalidateOn, signal } = myConfig
+    // Aborting one call should not affect others
+    if (signal || !(dedupe || cacheTtl)) return this.makeCall(t, p, myConfig)
+    const key = CallCache.key(t, p)
+    if (this.callCache.has(key)) {
+      this.logger.debug('Call cached', { t })
+      const data = this.callCache.get<SuccessMessage<T>>(key)!
+      return new ProgressPromise((resolve) => resolve(data))
+    }
+    const inFlight =
+      this.callCache.getInFlight<ProgressPromise<SuccessMessage<T>, PT>>(key)
+    if (inFlight) return inFlight
+    const promise = this.makeCall<T, PT>(t, p, myConfig)
+    this.callCache.setInFlight(
+      key,
+      t,
+      // Id of the call just made
+      String(this.messageID),
+      // Progress handlers make PT invariant. Shared callers use the same types, so this is safe.
+      promise as unknown as ProgressPromise<unknown, Progress>,
+      cacheTtl ? { ttl: cacheTtl, invalidateOn } : undefined
+    )
+    return promise
+  }
+
+  /**
+   * Clear cached call responses, and stop sharing calls in flight
+   * @param pattern Type pattern (as for type handlers), or all
+   */
+  public invalidateCache(pattern?: string) {
+    this.callCache.invalidate(pattern)
+  }
+
+  private makeCall<T, PT extends Progress>(
+    t: string,
+    p: unknown,
+    myConfig: ChannelsConfig
   ): ProgressPromise<SuccessMessage<T>, PT> {
     // Registers a response listener and returns promise that resolves or rejects depeding on subsequent
     // socket data, or times out.
-    this.assertOpen()
-    this.heartbeat('outgoing')
-    const myConfig: ChannelsConfig = { ...this.callConfig, ...config }
     const i = String(++this.messageID)
-    this.ws?.send(
-      JSON.stringify({
-        t,
-        i,
-        p
-      })
-    )
     return new ProgressPromise((resolve, reject, progress) => {
+      const { signal } = myConfig
+      if (signal?.aborted) return reject(new AbortError(signal.reason))
+
+      const tracker = this.metrics?.trackCall(t)
+      let sentAt: number | undefined
+      const logResult = (outcome: CallOutcome, error?: unknown) => {
+        const fields = {
+          t,
+          i,
+          duration:
+            sentAt === undefined ? undefined : performance.now() - sentAt,
+          ...(error === undefined ? {} : { error })
+        }
+        if (outcome === 'success') this.logger.debug('Call succeeded', fields)
+        else if (outcome === 'aborted')
+          this.logger.debug('Call aborted', fields)
+        else if (outcome === 'timeout')
+          this.logger.warn('Call timed out', fields)
+        else this.logger.warn('Call failed', fields)
+      }
+      let queued: QueuedMessage | undefined
       let timeoutId: NodeJS.Timeout
+      // Timeout starts when message is actually sent
       const setRejectTimeout = () => {
+        queued = undefined
         if (!myConfig.timeout) return
-        timeoutId = setTimeout(() => {
-          this.callbacks.delete(i)
-          reject(new Error('Request timed out'))
-        }, myConfig.timeout)
+        timeoutId = setTimeout(
+          () => fail(new TimeoutError(), 'timeout'),
+          myConfig.timeout
+        )
       }
-      setRejectTimeout()
-
-      this.callbacks.set(i, (data) => {
+      const cleanUp = () => {
         clearTimeout(timeoutId)
-        switch (data.s) {
-          case State.Failed:
-            this.callbacks.delete(i)
-            reject(
-              isValidationErrorPayload(data.p)
-                ? new ValidationError(data.p.msg, data.p.errors)
-                : new Error(data.p.msg)
-            )
-            break
-          case State.Queued:
-          case State.Running:
-            // If we get progress, we reset timeout watcher
-            setRejectTimeout()
-            if (data.p) progress(data.p as PT)
-            break
-          case State.Success:
-            this.callbacks.delete(i)
-            resolve(data as SuccessMessage<T>)
-            break
-          default: // Should never happen
-            this.callbacks.delete(i)
-            reject(new Error(`Unknown socket state: ${data}`))
+        this.callbacks.delete(i)
+        this.scheduler?.release(i)
+        signal?.removeEventListener('abort', abort)
+      }
+      const fail = (error: unknown, outcome: CallOutcome = 'error') => {
+        cleanUp()
+        tracker?.done(outcome)
+        logResult(outcome, error)
+        reject(error)
+      }
+      const abort = () => {
+        if (queued) this.unqueue(queued)
+        // Tell server to stop working on it, if it has received it
+        else if (myConfig.cancelType)
+          try {
+            this.transmit({ t: myConfig.cancelType, i })
+          } catch {
+            // Never mind if connection is gone
+          }
+        fail(new AbortError(signal?.reason), 'aborted')
+      }
+      signal?.addEventListener('abort', abort)
+
+      const pending: PendingCall = {
+        sent: false,
+        reject: (error) => fail(error),
+        receive: (data) => {
+          clearTimeout(timeoutId)
+          switch (data.s) {
+            case State.Failed:
+              fail(
+                isValidationErrorPayload(data.p)
+                  ? new ValidationError(data.p.msg, data.p.errors, data)
+                  : new ServerError(data),
+                'failed'
+              )
+              break
+            case State.Queued:
+            case State.Running:
+              // If we get progress, we reset timeout watcher
+              setRejectTimeout()
+              tracker?.progress(data.s)
+              if (data.p) progress(data.p as PT)
+              break
+            case State.Success:
+              cleanUp()
+              tracker?.done('success')
+              logResult('success')
+              resolve(data as SuccessMessage<T>)
+              break
+            default: // Should never happen
+              fail(new EnvelopeError(`Unknown socket state: ${data.s}`))
+          }
         }
-      })
+      }
+      this.callbacks.set(i, pending)
+
+      try {
+        queued = this.transmit(
+          { t, i, p },
+          {
+            call: true,
+            priority: myConfig.priority,
+            onSent: () => {
+              pending.sent = true
+              sentAt = performance.now()
+              tracker?.sent()
+              setRejectTimeout()
+            },
+            onDiscard: (error) => fail(error)
+          },
+          myConfig.ttl
+        )
+      } catch (error) {
+        fail(error)
+      }
     })
   }
 
   /**
-   * Send a message to server, without listening to response
+   * Send a message to server, without listening to response.
+   * Throws if socket is not open and message can't be queued.
    * @param t type
    * @param p payload
    */
-  public send(t: string, p?: object) {
+  public send<K extends MessageType>(t: K, ...[p]: SendArgs<K>) {
     // Does not register a response listener
-    this.assertOpen()
-    this.heartbeat('outgoing')
-    this.ws?.send(JSON.stringify({ t, p }))
+    this.transmit({ t, p })
   }
 
   /**
@@ -278,15 +1049,66 @@ export default class Socket {
    * @param s state
    * @param p payload
    */
-  public respond(
-    t: string,
+  public respond<K extends MessageType>(
+    t: K,
     i: string | null,
     s: State = State.Success,
-    p?: object
+    p?: ResponsePayload<K> | FailedMessage['p'] | Progress
   ) {
-    this.assertOpen()
-    this.heartbeat('outgoing')
-    this.ws?.send(JSON.stringify({ t, i, p, s }))
+    this.transmit({ t, i, p, s })
+  }
+
+  /**
+   * Handle calls from server, responding with the result.
+   * A resolved value is sent as success, errors as failure (ValidationError with its errors).
+   * Messages that are responses to calls are ignored.
+   * Each type can only have one handler, since there can only be one response.
+   * @param t Exact message type
+   * @param handler Request handler
+   * @returns Function to remove handler
+   */
+  public handle<K extends MessageType>(
+    t: K,
+    // Unregistered types get unknown payloads
+    handler: RequestHandler<
+      K extends RegisteredType ? RequestPayload<K> : unknown,
+      ResponsePayload<K>
+    >
+  ) {
+    if (this.requestHandlers.has(t))
+      throw new Error(`Request handler for '${t}' already registered`)
+    this.requestHandlers.set(t, handler as RequestHandler)
+    return () => {
+      if (this.requestHandlers.get(t) === handler)
+        this.requestHandlers.delete(t)
+    }
+  }
+
+  private async handleRequest(
+    { t, i, p, channel }: ChannelsMessage,
+    handler: RequestHandler
+  ) {
+    // Server can't get an answer without message id, but handler should still run
+    const respond = (s: State, p?: unknown) => {
+      if (!i) return
+      try {
+        this.transmit({ t, i, s, p })
+      } catch (error) {
+        this.logger.warn('Could not respond to request', { t, i, error })
+      }
+    }
+    try {
+      const result = await handler(p, {
+        t,
+        i,
+        channel,
+        progress: (p) => respond(State.Running, p)
+      })
+      respond(State.Success, result)
+    } catch (error) {
+      this.logger.warn('Request handler failed', { t, i, error })
+      respond(State.Failed, toErrorPayload(error))
+    }
   }
 
   /* Heartbeat handling */
@@ -295,17 +1117,11 @@ export default class Socket {
     ms: number,
     direction?: Heartbeat['direction']
   ) {
+    const heartbeat: Heartbeat = { callback, direction, ms }
     // Should not trigger before readyState is open
-    const intervalID =
-      this.readyState === WebSocket.OPEN
-        ? setInterval(() => callback(this), ms)
-        : undefined
-    this.heartbeats.push({
-      callback,
-      direction,
-      ms,
-      intervalID
-    })
+    if (this.readyState === ReadyState.Open)
+      heartbeat.intervalID = setInterval(() => this.beat(heartbeat), ms)
+    this.heartbeats.push(heartbeat)
   }
 
   public removeHeartbeat(callback: Heartbeat['callback']) {
@@ -330,9 +1146,17 @@ export default class Socket {
       // Reset interval
       clearInterval(heartbeat.intervalID)
       heartbeat.intervalID = setInterval(
-        () => heartbeat.callback(this),
+        () => this.beat(heartbeat),
         heartbeat.ms
       )
     }
   }
+
+  private beat(heartbeat: Heartbeat) {
+    this.logger.debug('Heartbeat', {
+      heartbeat: heartbeat.direction ?? 'any',
+      ms: heartbeat.ms
+    })
+    heartbeat.callback(this)
+  }
 }
@@ -0,0 +1,128 @@
+import { expect, jest, test } from '@jest/globals'
+
+import Socket from './Socket'
+import MockEnvelopeServer from './mockServer'
+import { SocketOptions } from './types'
+
+async function createSocket(opts?: SocketOptions) {
+  const server = new MockEnvelopeServer()
+  const connected = server.connected()
+  const socket = new Socket('ws://mock', {
+    ...opts,
+    WebSocket: server.WebSocket
+  })
+  await connected
+  let count = 0
+  server.respond<{ pk: number }>('meeting.get', ({ pk }) => ({
+    pk,
+    count: ++count
+  }))
+  const calls = () =>
+    server.received.filter(({ t }) => t === 'meeting.get').length
+  return { calls, server, socket }
+}
+
+function sleep(ms?: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+test('Deduplicate calls in flight', async () => {
+  const { calls, socket } = await createSocket({ config: { dedupe: true } })
+  const first = socket.call('meeting.get', { pk: 1 })
+  const onProgress = jest.fn()
+  const second = socket.call('meeting.get', { pk: 1 }).onProgress(onProgress)
+  const other = socket.call('meeting.get', { pk: 2 })
+  expect(second).toBe(first)
+  expect(other).not.toBe(first)
+  expect((await first).p).toEqual({ pk: 1, count: 1 })
+  await other
+  expect(calls()).toBe(2)
+
+  // Settled calls are not shared
+  expect((await socket.call('meeting.get', { pk: 1 })).p).toEqual({
+    pk: 1,
+    count: 3
+  })
+  // Nor calls that can be aborted
+  const controller = new AbortController()
+  const abortable = socket.call(
+    'meeting.get',
+    { pk: 1 },
+    { signal: controller.signal }
+  )
+  const shared = socket.call('meeting.get', { pk: 1 })
+  expect(shared).not.toBe(abortable)
+  await Promise.all([abortable, shared])
+  socket.close()
+})
+
+test('Cache call responses', async () => {
+  const { calls, socket } = await createSocket()
+  const config = { cacheTtl: 20, invalidateOn: ['meeting.changed'] }
+  const first = await socket.call('meeting.get', { pk: 1 }, config)
+  const second = await socket.call('meeting.get', { pk: 1 }, config)
+  expect(second).toEqual(first)
+  expect(calls()).toBe(1)
+
+  // Expired
+  await sleep(30)
+  expect((await socket.call('meeting.get', { pk: 1 }, config)).p).toEqual({
+    pk: 1,
+    count: 2
+  })
+  // Not cached without config
+  await socket.call('meeting.get', { pk: 1 })
+  expect(calls()).toBe(3)
+  socket.close()
+})
+
+test('Invalidate cached call responses', async () => {
+  const { calls, server, socket } = await createSocket({
+    config: { cacheTtl: 1000, invalidateOn: ['meeting.changed'] },
+    reconnect: { baseDelay: 10, jitter: 0 }
+  })
+  socket.addTypeHandler('meeting', () => {})
+  await socket.call('meeting.get', { pk: 1 })
+  socket.invalidateCache('meeting.get')
+  await socket.call('meeting.get', { pk: 1 })
+  socket.invalidateCache('poll')
+  await socket.call('meeting.get', { pk: 1 })
+  expect(calls()).toBe(2)
+
+  server.send({ t: 'meeting.changed', p: { pk: 1 } })
+  await sleep()
+  await socket.call('meeting.get', { pk: 1 })
+  expect(calls()).toBe(3)
+
+  // Invalidated while in flight, response is not cached
+  const promise = socket.call('meeting.get', { pk: 2 })
+  socket.invalidateCache()
+  await promise
+  await socket.call('meeting.get', { pk: 2 })
+  expect(calls()).toBe(5)
+
+  // Invalidating messages may be missed while disconnected
+  const reconnected = server.connected()
+  server.disconnect()
+  await reconnected
+  await socket.call('meeting.get', { pk: 2 })
+  expect(calls()).toBe(6)
+  socket.close()
+})
+
+test('Call response does not invalidate itself', async () => {
+  const { calls, server, socket } = await createSocket({
+    config: { cacheTtl: 1000, invalidateOn: ['meeting'] }
+  })
+  socket.addTypeHandler('meeting', () => {})
+  await socket.call('meeting.get', { pk: 1 })
+  await socket.call('meeting.get', { pk: 1 })
+  expect(calls()).toBe(1)
+
+  // Other messages of that type still do
+  server.send({ t: 'meeting.get', p: { pk: 1 } })
+  await sleep()
+  await socket.call('meeting.get', { pk: 1 })
+  expect(calls()).toBe(2)
+  socket.close()
+})
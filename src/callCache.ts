@@ -0,0 +1,131 @@
+import type ProgressPromise from './ProgressPromise'
+import { compilePattern } from './handlers'
+import { Progress } from './types'
+
+type Matcher = (t: string) => boolean
+
+interface CacheOptions {
+  ttl: number
+  invalidateOn?: string[]
+}
+
+interface InFlightEntry {
+  t: string
+  // Message id of call
+  i: string
+  promise: ProgressPromise<unknown, Progress>
+  cache?: CacheOptions
+  invalidatedBy: Matcher[]
+}
+
+interface CacheEntry {
+  t: string
+  data: unknown
+  expireTimeout: NodeJS.Timeout
+  invalidatedBy: Matcher[]
+}
+
+/**
+ * Keeps calls in flight, for deduplication, and cached responses of idempotent calls.
+ * Calls are identified by type and payload.
+ */
+export default class CallCache {
+  private entries = new Map<string, CacheEntry>()
+  private inFlight = new Map<string, InFlightEntry>()
+
+  public static key(t: string, p?: unknown) {
+    return `${t}:${JSON.stringify(p ?? null)}`
+  }
+
+  public has(key: string) {
+    return this.entries.has(key)
+  }
+
+  public get<T>(key: string) {
+    return this.entries.get(key)?.data as T | undefined
+  }
+
+  public getInFlight<T>(key: string) {
+    return this.inFlight.get(key)?.promise as T | undefined
+  }
+
+  /**
+   * Keep call promise until settled, and cache successful response if cache options are given.
+   * A call invalidated while in flight is no longer shared, and its response is not cached.
+   */
+  public setInFlight(
+    key: string,
+    t: string,
+    i: string,
+    promise: ProgressPromise<unknown, Progress>,
+    cache?: CacheOptions
+  ) {
+    const entry: InFlightEntry = {
+      t,
+      i,
+      promise,
+      cache,
+      invalidatedBy: cache?.invalidateOn?.map(compilePattern) ?? []
+    }
+    this.inFlight.set(key, entry)
+    const settle = (fulfilled: boolean, data?: unknown) => {
+      if (this.inFlight.get(key) !== entry) return
+      this.inFlight.delete(key)
+      if (fulfilled && cache) this.set(key, entry, data, cache.ttl)
+    }
+    promise.then(
+      (data) => settle(true, data),
+      () => settle(false)
+    )
+  }
+
+  private set(
+    key: string,
+    { t, invalidatedBy }: InFlightEntry,
+    data: unknown,
+    ttl: number
+  ) {
+    this.delete(key)
+    this.entries.set(key, {
+      t,
+      data,
+      expireTimeout: setTimeout(() => this.entries.delete(key), ttl),
+      invalidatedBy
+    })
+  }
+
+  private delete(key: string) {
+    clearTimeout(this.entries.get(key)?.expireTimeout)
+    this.entries.delete(key)
+  }
+
+  private remove(matches: (entry: CacheEntry | InFlightEntry) => boolean) {
+    for (const [key, entry] of this.entries)
+      if (matches(entry)) this.delete(key)
+    for (const [key, entry] of this.inFlight)
+      if (matches(entry)) this.inFlight.delete(key)
+  }
+
+  /**
+   * Clear cached responses and forget calls in flight
+   * @param pattern Call type pattern (as for type handlers), or clear all
+   */
+  public invalidate(pattern?: string) {
+    const matches = pattern ? compilePattern(pattern) : () => true
+    this.remove(({ t }) => matches(t))
+  }
+
+  /**
+   * Clear cached responses invalidated by incoming message type
+   * @param t Message type
+   * @param i Message id, a response doesn't invalidate its own call
+   */
+  public handleMessage(t: string, i?: string | null) {
+    if (!this.entries.size && !this.inFlight.size) return
+    this.remove(
+      (entry) =>
+        !('i' in entry && entry.i === i) &&
+        entry.invalidatedBy.some((matches) => matches(t))
+    )
+  }
+}
@@ -0,0 +1,63 @@
+import { expect, test } from '@jest/globals'
+
+import { jsonCodec, msgpackCodec, packMessage, unpackMessage } from './codecs'
+
+test('MessagePack encoding', () => {
+  expect([...packMessage({ t: 'a', p: [1, -1, true, null] })]).toEqual([
+    0x82, 0xa1, 0x74, 0xa1, 0x61, 0xa1, 0x70, 0x94, 0x01, 0xff, 0xc3, 0xc0
+  ])
+  expect([...packMessage(300)]).toEqual([0xcd, 0x01, 0x2c])
+  expect([...packMessage(-200)]).toEqual([0xd1, 0xff, 0x38])
+  expect([...packMessage(0.5)]).toEqual([0xcb, 0x3f, 0xe0, 0, 0, 0, 0, 0, 0])
+  // Undefined values are left out, as in JSON
+  expect(unpackMessage(packMessage({ t: 'a', i: undefined }))).toEqual({
+    t: 'a'
+  })
+})
+
+test('MessagePack round trip', () => {
+  const values = [
+    0,
+    127,
+    255,
+    65_536,
+    2 ** 40,
+    -32,
+    -129,
+    -70_000,
+    -(2 ** 40),
+    1.25,
+    '',
+    'åäö',
+    'x'.repeat(40),
+    'y'.repeat(70_000),
+    new Uint8Array([1, 2, 3]),
+    new Array(20).fill(1),
+    Object.fromEntries(new Array(20).fill(0).map((_, n) => [`k${n}`, n])),
+    {
+      t: 's.batch',
+      p: { t: 'poll.added', payloads: [{ pk: 1, title: 'Poll' }] }
+    }
+  ]
+  for (const value of values)
+    expect(unpackMessage(packMessage(value))).toEqual(value)
+})
+
+test('MessagePack invalid data', () => {
+  expect(() => unpackMessage(new Uint8Array([0x92, 0x01]))).toThrow(
+    'Unexpected end'
+  )
+  expect(() => unpackMessage(new Uint8Array([0x01, 0x02]))).toThrow(
+    'Trailing data'
+  )
+  expect(() => unpackMessage(new Uint8Array([0xc1]))).toThrow('Unsupported')
+  expect(() => msgpackCodec.decode('{}')).toThrow('Expected binary data')
+})
+
+test('JSON codec', () => {
+  const message = { t: 'test', i: '1', p: { a: 1 } }
+  expect(jsonCodec.decode(jsonCodec.encode(message) as string)).toEqual(message)
+  expect(
+    jsonCodec.decode(new TextEncoder().encode('{"t":"test"}').buffer)
+  ).toEqual({ t: 'test' })
+})
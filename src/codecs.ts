@@ -0,0 +1,301 @@
+import { ChannelsMessage, Codec, OutgoingMessage } from './types'
+
+export const jsonCodec: Codec = {
+  name: 'json',
+  binary: false,
+  encode(message) {
+    return JSON.stringify(message)
+  },
+  decode(data) {
+    if (typeof data !== 'string') data = new TextDecoder().decode(data)
+    return JSON.parse(data)
+  }
+}
+
+/* MessagePack (https://msgpack.org/) */
+
+class Writer {
+  private buffer = new Uint8Array(256)
+  private view = new DataView(this.buffer.buffer)
+  private length = 0
+
+  private ensure(size: number) {
+    if (this.length + size <= this.buffer.length) return
+    const buffer = new Uint8Array(
+      Math.max(this.buffer.length * 2, this.length + size)
+    )
+    buffer.set(this.buffer)
+    this.buffer = buffer
+    this.view = new DataView(buffer.buffer)
+  }
+
+  public bytes(bytes: Uint8Array) {
+    this.ensure(bytes.length)
+    this.buffer.set(bytes, this.length)
+    this.length += bytes.length
+  }
+
+  public uint(value: number, size: 1 | 2 | 4) {
+    this.ensure(size)
+    if (size === 1) this.view.setUint8(this.length, value)
+    else if (size === 2) this.view.setUint16(this.length, value)
+    else this.view.setUint32(this.length, value)
+    this.length += size
+  }
+
+  public int(value: number, size: 1 | 2 | 4) {
+    this.ensure(size)
+    if (size === 1) this.view.setInt8(this.length, value)
+    else if (size === 2) this.view.setInt16(this.length, value)
+    else this.view.setInt32(this.length, value)
+    this.length += size
+  }
+
+  public float(value: number) {
+    this.ensure(8)
+    this.view.setFloat64(this.length, value)
+    this.length += 8
+  }
+
+  public result() {
+    return this.buffer.slice(0, this.length)
+  }
+}
+
+// Header for str, bin, array and map, choosing smallest size
+function writeHeader(
+  writer: Writer,
+  length: number,
+  fix: [number, number] | undefined,
+  [h8, h16, h32]: [number | undefined, number, number]
+) {
+  if (fix && length < fix[1]) writer.uint(fix[0] | length, 1)
+  else if (h8 !== undefined && length < 0x100) {
+    writer.uint(h8, 1)
+    writer.uint(length, 1)
+  } else if (length < 0x10000) {
+    writer.uint(h16, 1)
+    writer.uint(length, 2)
+  } else {
+    writer.uint(h32, 1)
+    writer.uint(length, 4)
+  }
+}
+
+function writeNumber(writer: Writer, value: number) {
+  if (!Number.isInteger(value) || Math.abs(value) > 0xffffffff) {
+    writer.uint(0xcb, 1)
+    writer.float(value)
+  } else if (value >= 0) {
+    if (value < 0x80) writer.uint(value, 1)
+    else if (value < 0x100) {
+      writer.uint(0xcc, 1)
+      writer.uint(value, 1)
+    } else if (value < 0x10000) {
+      writer.uint(0xcd, 1)
+      writer.uint(value, 2)
+    } else {
+      writer.uint(0xce, 1)
+      writer.uint(value, 4)
+    }
+  } else if (value >= -0x20) writer.int(value, 1)
+  else if (value >= -0x80) {
+    writer.uint(0xd0, 1)
+    writer.int(value, 1)
+  } else if (value >= -0x8000) {
+    writer.uint(0xd1, 1)
+    writer.int(value, 2)
+  } else if (value >= -0x80000000) {
+    writer.uint(0xd2, 1)
+    writer.int(value, 4)
+  } else {
+    writer.uint(0xcb, 1)
+    writer.float(value)
+  }
+}
+
+function writeValue(writer: Writer, value: unknown) {
+  if (value === null || value === undefined) writer.uint(0xc0, 1)
+  else if (typeof value === 'boolean') writer.uint(value ? 0xc3 : 0xc2, 1)
+  else if (typeof value === 'number') writeNumber(writer, value)
+  else if (typeof value === 'string') {
+    const bytes = new TextEncoder().encode(value)
+    writeHeader(writer, bytes.length, [0xa0, 32], [0xd9, 0xda, 0xdb])
+    writer.bytes(bytes)
+  } else if (value instanceof Uint8Array) {
+    writeHeader(writer, value.length, undefined, [0xc4, 0xc5, 0xc6])
+    writer.bytes(value)
+  } else if (Array.isArray(value)) {
+    writeHeader(writer, value.length, [0x90, 16], [undefined, 0xdc, 0xdd])
+    for (const item of value) writeValue(writer, item)
+  } else if (typeof value === 'object') {
+    // Same as JSON, undefined values are left out
+    const entries = Object.entries(value).filter(([, v]) => v !== undefined)
+    writeHeader(writer, entries.length, [0x80, 16], [undefined, 0xde, 0xdf])
+    for (const [key, v] of entries) {
+      writeValue(writer, key)
+      writeValue(writer, v)
+    }
+  } else throw new TypeError(`Can not encode value of type ${typeof value}`)
+}
+
+class Reader {
+  private bytes: Uint8Array
+  private offset = 0
+  private view: DataView
+
+  constructor(bytes: Uint8Array) {
+    this.bytes = bytes
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  }
+
+  private advance(size: number) {
+    const offset = this.offset
+    if (offset + size > this.bytes.length)
+      throw new RangeError('Unexpected end of MessagePack data')
+    this.offset += size
+    return offset
+  }
+
+  public get done() {
+    return this.offset === this.bytes.length
+  }
+
+  public uint(size: 1 | 2 | 4 | 8) {
+    const offset = this.advance(size)
+    if (size === 1) return this.view.getUint8(offset)
+    if (size === 2) return this.view.getUint16(offset)
+    if (size === 4) return this.view.getUint32(offset)
+    return Number(this.view.getBigUint64(offset))
+  }
+
+  public int(size: 1 | 2 | 4 | 8) {
+    const offset = this.advance(size)
+    if (size === 1) return this.view.getInt8(offset)
+    if (size === 2) return this.view.getInt16(offset)
+    if (size === 4) return this.view.getInt32(offset)
+    return Number(this.view.getBigInt64(offset))
+  }
+
+  public float(size: 4 | 8) {
+    const offset = this.advance(size)
+    return size === 4
+      ? this.view.getFloat32(offset)
+      : this.view.getFloat64(offset)
+  }
+
+  public slice(length: number) {
+    const offset = this.advance(length)
+    return this.bytes.slice(offset, offset + length)
+  }
+
+  public str(length: number) {
+    return new TextDecoder().decode(this.slice(length))
+  }
+}
+
+function readArray(reader: Reader, length: number) {
+  const result: unknown[] = []
+  for (let n = 0; n < length; n++) result.push(readValue(reader))
+  return result
+}
+
+function readMap(reader: Reader, length: number) {
+  const result: Record<string, unknown> = {}
+  for (let n = 0; n < length; n++) {
+    const key = readValue(reader)
+    result[String(key)] = readValue(reader)
+  }
+  return result
+}
+
+function readValue(reader: Reader): unknown {
+  const byte = reader.uint(1)
+  if (byte < 0x80) return byte
+  if (byte < 0x90) return readMap(reader, byte & 0x0f)
+  if (byte < 0xa0) return readArray(reader, byte & 0x0f)
+  if (byte < 0xc0) return reader.str(byte & 0x1f)
+  if (byte >= 0xe0) return byte - 0x100
+  switch (byte) {
+    case 0xc0:
+      return null
+    case 0xc2:
+      return false
+    case 0xc3:
+      return true
+    case 0xc4:
+      return reader.slice(reader.uint(1))
+    case 0xc5:
+      return reader.slice(reader.uint(2))
+    case 0xc6:
+      return reader.slice(reader.uint(4))
+    case 0xca:
+      return reader.float(4)
+    case 0xcb:
+      return reader.float(8)
+    case 0xcc:
+      return reader.uint(1)
+    case 0xcd:
+      return reader.uint(2)
+    case 0xce:
+      return reader.uint(4)
+    case 0xcf:
+      return reader.uint(8)
+    case 0xd0:
+      return reader.int(1)
+    case 0xd1:
+      return reader.int(2)
+    case 0xd2:
+      return reader.int(4)
+    case 0xd3:
+      return reader.int(8)
+    case 0xd9:
+      return reader.str(reader.uint(1))
+    case 0xda:
+      return reader.str(reader.uint(2))
+    case 0xdb:
+      return reader.str(reader.uint(4))
+    case 0xdc:
+      return readArray(reader, reader.uint(2))
+    case 0xdd:
+      return readArray(reader, reader.uint(4))
+    case 0xde:
+      return readMap(reader, reader.uint(2))
+    case 0xdf:
+      return readMap(reader, reader.uint(4))
+  }
+  throw new TypeError(`Unsupported MessagePack type 0x${byte.toString(16)}`)
+}
+
+export function packMessage(value: unknown) {
+  const writer = new Writer()
+  writeValue(writer, value)
+  return writer.result()
+}
+
+export function unpackMessage(data: ArrayBuffer | Uint8Array) {
+  const reader = new Reader(
+    data instanceof Uint8Array ? data : new Uint8Array(data)
+  )
+  const value = readValue(reader)
+  if (!reader.done)
+    throw new RangeError('Trailing data after MessagePack value')
+  return value
+}
+
+/**
+ * Binary codec, using MessagePack.
+ * Bytes (Uint8Array) in payloads are sent as MessagePack bin type.
+ */
+export const msgpackCodec: Codec = {
+  name: 'msgpack',
+  binary: true,
+  encode(message: OutgoingMessage) {
+    return packMessage(message).buffer
+  },
+  decode(data) {
+    if (typeof data === 'string')
+      throw new TypeError('Expected binary data for MessagePack codec')
+    return unpackMessage(data) as ChannelsMessage
+  }
+}
@@ -0,0 +1,132 @@
+import { expect, test } from '@jest/globals'
+import WS from 'jest-websocket-mock'
+import { effectScope, nextTick, ref } from 'vue'
+
+import Socket from './Socket'
+import { useCall, useChannel, useSocket } from './composables'
+
+function createSocket() {
+  const server = new WS('ws://localhost:1234', { jsonProtocol: true })
+  const socket = new Socket('ws://localhost:1234', {
+    manual: true,
+    subscriptions: { leaveDelay: 0 }
+  })
+  return { server, socket }
+}
+
+test('useSocket readyState', async () => {
+  const { server, socket } = createSocket()
+  const scope = effectScope()
+  const { isOpen, readyState } = scope.run(() => useSocket(socket))!
+
+  expect(readyState.value).toBeUndefined()
+  socket.connect()
+  expect(readyState.value).toBe(WebSocket.CONNECTING)
+  await server.connected
+  expect(isOpen.value).toBe(true)
+
+  // Stops listening when scope is disposed
+  scope.stop()
+  server.close()
+  expect(readyState.value).toBe(WebSocket.OPEN)
+
+  WS.clean()
+})
+
+test('useChannel subscription lifecycle', async () => {
+  const { server, socket } = createSocket()
+  socket.connect()
+  await server.connected
+
+  const pk = ref(1)
+  const scope = effectScope()
+  const { isSubscribed } = scope.run(() => useChannel('test', pk, socket))!
+  expect(await server.nextMessage).toEqual({
+    t: 'channel.subscribe',
+    i: '1',
+    p: { channel_type: 'test', pk: 1 }
+  })
+  expect(isSubscribed.value).toBe(false)
+  server.send({
+    t: 'channel.subscribed',
+    i: '1',
+    p: { channel_type: 'test', channel_name: 'test_1', pk: 1, app_state: [] },
+    s: 's'
+  })
+  await nextTick()
+  expect(isSubscribed.value).toBe(true)
+
+  // Changing pk subscribes to the new channel
+  pk.value = 2
+  await nextTick()
+  expect(isSubscribed.value).toBe(false)
+  expect(await server.nextMessage).toEqual(
+    expect.objectContaining({ p: { channel_type: 'test', pk: 2 } })
+  )
+  server.send({
+    t: 'channel.subscribed',
+    i: '2',
+    p: { channel_type: 'test', channel_name: 'test_2', pk: 2, app_state: [] },
+    s: 's'
+  })
+  await nextTick()
+  expect(isSubscribed.value).toBe(true)
+
+  expect(await server.nextMessage).toEqual({
+    t: 'channel.leave',
+    p: { channel_type: 'test', pk: 1 }
+  })
+
+  // Leaves when scope is disposed
+  scope.stop()
+  expect(await server.nextMessage).toEqual({
+    t: 'channel.leave',
+    p: { channel_type: 'test', pk: 2 }
+  })
+  WS.clean()
+})
+
+test('useCall state', async () => {
+  const { server, socket } = createSocket()
+  socket.connect()
+  await server.connected
+
+  const scope = effectScope()
+  const { call, data, errors, loading, progress } = scope.run(() =>
+    useCall('test.call', socket)
+  )!
+
+  const promise = call({ n: 1 })
+  expect(loading.value).toBe(true)
+  await server.nextMessage
+  server.send({ t: 'test.call', i: '1', s: 'r', p: { curr: 1, total: 2 } })
+  await nextTick()
+  expect(progress.value).toEqual({ curr: 1, total: 2 })
+  server.send({ t: 'test.call', i: '1', s: 's', p: { ok: true } })
+  expect(await promise).toEqual({ ok: true })
+  expect(data.value).toEqual({ ok: true })
+  expect(loading.value).toBe(false)
+
+  const failing = call()
+  await server.nextMessage
+  server.send({
+    t: 'test.call',
+    i: '2',
+    s: 'f',
+    p: {
+      msg: 'Invalid',
+      errors: [{ loc: ['title'], msg: 'Required', type: 'missing' }]
+    }
+  })
+  expect(await failing).toBeUndefined()
+  expect(errors.value).toEqual({ title: ['Required'] })
+
+  scope.stop()
+  WS.clean()
+})
+
+test('useSocket without provided socket', () => {
+  expect(() => effectScope().run(() => useSocket())).toThrow(
+    'No socket available'
+  )
+})
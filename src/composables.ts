@@ -0,0 +1,169 @@
+import {
+  InjectionKey,
+  MaybeRefOrGetter,
+  computed,
+  hasInjectionContext,
+  inject,
+  onScopeDispose,
+  provide,
+  readonly,
+  ref,
+  shallowRef,
+  toValue,
+  watch
+} from 'vue'
+
+import type Socket from './Socket'
+import { parseSocketError } from './errors'
+import {
+  CallArgs,
+  MessageType,
+  ProgressPayload,
+  ReadyState,
+  ResponsePayload,
+  SocketEventHandler
+} from './types'
+
+export const socketKey: InjectionKey<Socket> = Symbol('envelope-socket')
+
+/**
+ * Make socket available to composables in component tree
+ */
+export function provideSocket(socket: Socket) {
+  provide(socketKey, socket)
+}
+
+function getSocket(socket?: Socket) {
+  const _socket =
+    socket ?? (hasInjectionContext() ? inject(socketKey) : undefined)
+  if (!_socket)
+    throw new Error('No socket available. Use provideSocket() or pass socket.')
+  return _socket
+}
+
+/**
+ * Reactive socket connection state.
+ * Composables take an optional socket argument, or use socket from provideSocket().
+ */
+export function useSocket(socket?: Socket) {
+  const _socket = getSocket(socket)
+  const readyState = ref(_socket.readyState)
+  const handler: SocketEventHandler = (event) => {
+    readyState.value = event.readyState
+  }
+  _socket.on('readyState', handler)
+  onScopeDispose(() => _socket.off('readyState', handler))
+
+  return {
+    socket: _socket,
+    readyState: readonly(readyState),
+    isOpen: computed(() => readyState.value === ReadyState.Open)
+  }
+}
+
+/**
+ * Subscribe to channel while in scope. Changing channelType or pk leaves the previous channel.
+ * @param channelType Channel type
+ * @param pk Channel pk, or undefined to not subscribe
+ */
+export function useChannel(
+  channelType: MaybeRefOrGetter<string>,
+  pk: MaybeRefOrGetter<number | undefined>,
+  socket?: Socket
+) {
+  const _socket = getSocket(socket)
+  const error = shallowRef<unknown>()
+  const isSubscribed = ref(false)
+
+  function checkSubscribed() {
+    const type = toValue(channelType)
+    const _pk = toValue(pk)
+    isSubscribed.value = [..._socket.channels.getSubscribedChannels()].some(
+      (channel) => channel.channelType === type && channel.pk === _pk
+    )
+  }
+
+  const removeHandler = _socket.channels.onSubscriptionChanged((event) => {
+    if (event.channelType === toValue(channelType) && event.pk === toValue(pk))
+      error.value = event.error
+    checkSubscribed()
+  })
+  // Subscriptions are dropped when connection is
+  const readyStateHandler = checkSubscribed
+  _socket.on('readyState', readyStateHandler)
+  onScopeDispose(() => {
+    removeHandler()
+    _socket.off('readyState', readyStateHandler)
+  })
+
+  watch(
+    () => [toValue(channelType), toValue(pk)] as const,
+    ([type, _pk], _, onCleanup) => {
+      checkSubscribed()
+      error.value = undefined
+      if (_pk === undefined) return
+      const { leave, promise } = _socket.channels.subscribe(type, _pk)
+      // Failure is set from subscription event
+      promise.catch(() => {})
+      onCleanup(() => leave())
+    },
+    { immediate: true }
+  )
+
+  return {
+    error,
+    isSubscribed: readonly(isSubscribed)
+  }
+}
+
+/**
+ * Reactive state for calls of a message type.
+ * Errors are available parsed (as from parseSocketError) in `errors`.
+ * @param t type
+ */
+export function useCall<K extends MessageType>(
+  t: MaybeRefOrGetter<K>,
+  socket?: Socket
+) {
+  const _socket = getSocket(socket)
+  const data = shallowRef<ResponsePayload<K>>()
+  const error = shallowRef<Error>()
+  const loading = ref(false)
+  const progress = shallowRef<ProgressPayload<K>>()
+  let callCount = 0
+
+  /**
+   * Perform call. Resolves to response payload, or undefined on error.
+   */
+  async function call(...args: CallArgs<K>) {
+    const callId = ++callCount
+    // Only state for latest call is kept
+    const isLatest = () => callId === callCount
+    loading.value = true
+    error.value = undefined
+    progress.value = undefined
+    const promise = _socket.call(toValue(t), ...args)
+    promise.onProgress((p) => {
+      if (isLatest()) progress.value = p
+    })
+    try {
+      const { p } = await promise
+      if (isLatest()) data.value = p
+      return p
+    } catch (e) {
+      if (isLatest())
+        error.value = e instanceof Error ? e : new Error(String(e))
+    } finally {
+      if (isLatest()) loading.value = false
+    }
+  }
+
+  return {
+    call,
+    data,
+    error,
+    errors: computed(() => error.value && parseSocketError(error.value)),
+    loading: readonly(loading),
+    progress
+  }
+}
@@ -0,0 +1,103 @@
+import { expect, test } from '@jest/globals'
+
+import {
+  ValidationError,
+  buildErrorTree,
+  formatLoc,
+  parseSocketError,
+  translateError
+} from './errors'
+
+const error = new ValidationError('Invalid', [
+  { loc: [], msg: 'Value error, Poll has ended', type: 'value_error' },
+  { loc: ['title'], msg: 'Field required', type: 'missing' },
+  {
+    loc: ['options', 2, 'title'],
+    msg: 'String should have at least 3 characters',
+    type: 'string_too_short',
+    input: 'ab',
+    ctx: { min_length: 3 },
+    url: 'https://errors.pydantic.dev/2.6/v/string_too_short'
+  },
+  { loc: ['options', 2, 'title'], msg: 'Not unique', type: 'unique' }
+])
+
+test('formatLoc', () => {
+  expect(formatLoc([])).toBe('__root__')
+  expect(formatLoc(['title'])).toBe('title')
+  expect(formatLoc(['options', 2, 'title'])).toBe('options[2].title')
+  expect(formatLoc([0, 'title'])).toBe('[0].title')
+})
+
+test('parseSocketError', () => {
+  expect(parseSocketError(new Error('Failed'))).toEqual({
+    __root__: ['Failed']
+  })
+  expect(parseSocketError(error)).toEqual({
+    __root__: ['Value error, Poll has ended'],
+    title: ['Field required'],
+    options: ['String should have at least 3 characters', 'Not unique']
+  })
+  expect(parseSocketError(error, { fullPath: true })).toEqual({
+    __root__: ['Value error, Poll has ended'],
+    title: ['Field required'],
+    'options[2].title': [
+      'String should have at least 3 characters',
+      'Not unique'
+    ]
+  })
+})
+
+test('buildErrorTree', () => {
+  expect(buildErrorTree(error)).toEqual({
+    errors: ['Value error, Poll has ended'],
+    fields: {
+      title: { errors: ['Field required'], fields: {} },
+      options: {
+        errors: [],
+        fields: {
+          2: {
+            errors: [],
+            fields: {
+              title: {
+                errors: [
+                  'String should have at least 3 characters',
+                  'Not unique'
+                ],
+                fields: {}
+              }
+            }
+          }
+        }
+      }
+    }
+  })
+  expect(buildErrorTree(new Error('Failed'))).toEqual({
+    errors: ['Failed'],
+    fields: {}
+  })
+})
+
+test('Translate errors', () => {
+  const translations = {
+    missing: 'Obligatoriskt fält',
+    string_too_short: 'Minst {min_length} tecken',
+    unique: ({ loc }: { loc: (string | number)[] }) =>
+      `${loc.at(-1)} är inte unik`
+  }
+  expect(
+    parseSocketError(error, { fullPath: true, translate: translations })
+  ).toEqual({
+    __root__: ['Value error, Poll has ended'],
+    title: ['Obligatoriskt fält'],
+    'options[2].title': ['Minst 3 tecken', 'title är inte unik']
+  })
+  const [, missing] = error.errors
+  expect(translateError(missing, () => undefined)).toBe('Field required')
+  expect(translateError(missing, ({ type }) => type.toUpperCase())).toBe(
+    'MISSING'
+  )
+  expect(buildErrorTree(error, translations).fields.title.errors).toEqual([
+    'Obligatoriskt fält'
+  ])
+})
@@ -1,26 +1,201 @@
-import { PydanticError } from "./types"
+import { ChannelsMessage, ErrorPayload, ErrorTranslator, ErrorTree, FailedMessage, ParseErrorOptions, PydanticError, ValidationErrorPayload } from "./types"
 
-export class ValidationError extends Error {
+/**
+ * Base class for errors from envelope client
+ */
+export class EnvelopeError extends Error {
+  constructor (msg: string) {
+    super(msg)
+    this.name = 'EnvelopeError'
+  }
+}
+
+export function isEnvelopeError (error: unknown): error is EnvelopeError {
+  return error instanceof EnvelopeError
+}
+
+export class ValidationError extends EnvelopeError {
   errors: PydanticError[]
+  /**
+   * Failed message from server, if any
+   */
+  data?: FailedMessage
 
-  constructor (msg: string, errors: PydanticError[]) {
+  constructor (msg: string, errors: PydanticError[], data?: FailedMessage) {
     super(msg)
     this.name = 'ValidationError'
     this.errors = errors
+    this.data = data
+  }
+}
+
+export class AbortError extends EnvelopeError {
+  reason: unknown
+
+  constructor (reason?: unknown) {
+    super('Request aborted')
+    this.name = 'AbortError'
+    this.reason = reason
   }
 }
 
+export function isAbortError (error: unknown): error is AbortError {
+  return error instanceof AbortError
+}
+
+export class TimeoutError extends EnvelopeError {
+  constructor (msg = 'Request timed out') {
+    super(msg)
+    this.name = 'TimeoutError'
+  }
+}
+
+export function isTimeoutError (error: unknown): error is TimeoutError {
+  return error instanceof TimeoutError
+}
+
+/**
+ * Incoming payload failed validation by a registered validator
+ */
+export class InvalidPayloadError extends EnvelopeError {
+  data: ChannelsMessage
+  error: unknown
+
+  constructor (data: ChannelsMessage, error: unknown) {
+    super(`Invalid payload for message type '${data.t}'`)
+    this.name = 'InvalidPayloadError'
+    this.data = data
+    this.error = error
+  }
+}
+
+/**
+ * Server responded with failure
+ */
+export class ServerError extends EnvelopeError {
+  data: FailedMessage
+
+  constructor (data: FailedMessage) {
+    super(data.p.msg)
+    this.name = 'ServerError'
+    this.data = data
+  }
+}
+
+export function isServerError (error: unknown): error is ServerError {
+  return error instanceof ServerError
+}
+
+/**
+ * Connection closed before call was answered, or before message could be sent
+ */
+export class ConnectionClosedError extends EnvelopeError {
+  code?: number
+  reason?: string
+
+  constructor (msg = 'Connection closed', code?: number, reason?: string) {
+    super(msg)
+    this.name = 'ConnectionClosedError'
+    this.code = code
+    this.reason = reason
+  }
+}
+
+export function isConnectionClosedError (error: unknown): error is ConnectionClosedError {
+  return error instanceof ConnectionClosedError
+}
+
+/**
+ * Message can't be sent, since socket is not open (and not queued)
+ */
+export class NotOpenError extends EnvelopeError {
+  readyState?: number
+
+  constructor (readyState?: number) {
+    super(`Socket not open (readyState ${readyState})`)
+    this.name = 'NotOpenError'
+    this.readyState = readyState
+  }
+}
+
+export function isNotOpenError (error: unknown): error is NotOpenError {
+  return error instanceof NotOpenError
+}
+
 export function isValidationError (error: unknown): error is ValidationError {
   return error instanceof ValidationError
 }
 
-export function parseSocketError (error: Error | ValidationError): Record<string, string[]> {
-  if (!isValidationError(error)) return { __root__: [error.message] }
+/**
+ * Failed response payload for an error, in the same shape server sends
+ */
+export function toErrorPayload (error: unknown): ErrorPayload | ValidationErrorPayload {
+  if (isValidationError(error)) return { msg: error.message, errors: error.errors }
+  return { msg: error instanceof Error ? error.message : String(error) }
+}
+
+const ROOT = '__root__'
+
+/**
+ * Format error location as a path, i.e. 'options[2].title'. Empty location is '__root__'.
+ */
+export function formatLoc (loc: PydanticError['loc']): string {
+  if (!loc.length) return ROOT
+  return loc.reduce<string>((path, part) => {
+    if (typeof part === 'number') return `${path}[${part}]`
+    return path ? `${path}.${part}` : part
+  }, '')
+}
+
+/**
+ * Error message, translated if translator has a message for it
+ */
+export function translateError (error: PydanticError, translate?: ErrorTranslator): string {
+  if (!translate) return error.msg
+  if (typeof translate === 'function') return translate(error) ?? error.msg
+  const message = translate[error.type]
+  if (typeof message === 'function') return message(error)
+  if (message === undefined) return error.msg
+  return message.replace(/\{(\w+)\}/g, (placeholder, key) =>
+    error.ctx && key in error.ctx ? String(error.ctx[key]) : placeholder
+  )
+}
+
+/**
+ * Error messages by field. Errors that aren't validation errors, or that are on the whole payload, are keyed '__root__'.
+ * @param error Error, i.e. from a rejected call
+ * @param opts Key by full path, and translate messages
+ */
+export function parseSocketError (error: Error | ValidationError, opts: ParseErrorOptions = {}): Record<string, string[]> {
+  if (!isValidationError(error)) return { [ROOT]: [error.message] }
   const locErrors: Record<string, string[]> = {}
   for (const e of error.errors) {
-    const loc = e.loc[0] // Assumes non-empty list
+    const loc = opts.fullPath ? formatLoc(e.loc) : formatLoc(e.loc.slice(0, 1))
     if (!(loc in locErrors)) locErrors[loc] = []
-    locErrors[loc].push(e.msg)
+    locErrors[loc].push(translateError(e, opts.translate))
   }
   return locErrors
 }
+
+/**
+ * Error messages as a tree following payload structure, for complex forms.
+ * Errors that aren't validation errors, or that are on the whole payload, are on the root node.
+ * @param error Error, i.e. from a rejected call
+ * @param translate Translate messages
+ */
+export function buildErrorTree (error: Error | ValidationError, translate?: ErrorTranslator): ErrorTree {
+  const root: ErrorTree = { errors: [], fields: {} }
+  if (!isValidationError(error)) {
+    root.errors.push(error.message)
+    return root
+  }
+  for (const e of error.errors) {
+    let node = root
+    for (const part of e.loc) {
+      const key = String(part)
+      node = node.fields[key] ??= { errors: [], fields: {} }
+    }
+    node.errors.push(translateError(e, translate))
+  }
+  return root
+}
@@ -0,0 +1,88 @@
+import { expect, jest, test } from '@jest/globals'
+
+import HandlerRegistry, { compilePattern } from './handlers'
+
+test('compilePattern', () => {
+  const namespace = compilePattern('poll')
+  expect(namespace('poll')).toBe(true)
+  expect(namespace('poll.added')).toBe(true)
+  expect(namespace('poll.option.added')).toBe(true)
+  expect(namespace('polls.added')).toBe(false)
+
+  const exact = compilePattern('meeting.changed')
+  expect(exact('meeting.changed')).toBe(true)
+  expect(exact('meeting.added')).toBe(false)
+
+  const wildcard = compilePattern('poll.*.closed')
+  expect(wildcard('poll.1.closed')).toBe(true)
+  expect(wildcard('poll.closed')).toBe(false)
+  expect(wildcard('poll.1.2.closed')).toBe(false)
+  expect(wildcard('poll.1.closed.now')).toBe(false)
+
+  const globstar = compilePattern('poll.**.closed')
+  expect(globstar('poll.closed')).toBe(true)
+  expect(globstar('poll.1.2.closed')).toBe(true)
+  expect(globstar('poll.1.opened')).toBe(false)
+
+  expect(compilePattern('**')('anything.at.all')).toBe(true)
+})
+
+test('HandlerRegistry ordering', () => {
+  const registry = new HandlerRegistry()
+  const handlers = {
+    all: jest.fn(),
+    namespace: jest.fn(),
+    exact: jest.fn(),
+    wildcard: jest.fn(),
+    namespace2: jest.fn()
+  }
+  registry.add('**', handlers.all)
+  registry.add('poll', handlers.namespace)
+  registry.add('poll.1.closed', handlers.exact)
+  registry.add('poll.*.closed', handlers.wildcard)
+  registry.add('poll', handlers.namespace2)
+
+  expect(registry.get('poll.1.closed')).toEqual([
+    handlers.exact,
+    handlers.wildcard,
+    handlers.namespace,
+    handlers.namespace2,
+    handlers.all
+  ])
+  expect(registry.get('poll.added')).toEqual([
+    handlers.namespace,
+    handlers.namespace2,
+    handlers.all
+  ])
+  expect(registry.get('meeting.changed')).toEqual([handlers.all])
+})
+
+test('HandlerRegistry removal', () => {
+  const registry = new HandlerRegistry()
+  const handler = jest.fn()
+  const remove = registry.add('poll', handler)
+  // Registering the same handler twice is ignored
+  registry.add('poll', handler)
+  expect(registry.get('poll.added')).toEqual([handler])
+  remove()
+  expect(registry.get('poll.added')).toEqual([])
+
+  registry.add('poll', handler)
+  registry.remove('poll', handler)
+  expect(registry.get('poll.added')).toEqual([])
+})
+
+test('HandlerRegistry channels', () => {
+  const registry = new HandlerRegistry()
+  const global = jest.fn()
+  const channel = jest.fn()
+  registry.add('poll', global)
+  registry.add('poll', channel, 'meeting/1')
+  expect(registry.get('poll.added')).toEqual([global])
+  expect(registry.get('poll.added', 'meeting/1')).toEqual([global, channel])
+  expect(registry.get('poll.added', 'meeting/2')).toEqual([global])
+  // Same handler can be registered globally too
+  registry.add('poll', channel)
+  registry.remove('poll', channel, 'meeting/1')
+  expect(registry.get('poll.added', 'meeting/1')).toEqual([global, channel])
+})
@@ -0,0 +1,119 @@
+import { TypeHandler } from './types'
+
+interface HandlerEntry {
+  pattern: string
+  handler: TypeHandler
+  // Channel path, for channel scoped handlers
+  channel?: string
+  order: number
+  // Number of non-wildcard segments, more is more specific
+  literals: number
+  globstars: number
+  matches(type: string): boolean
+}
+
+function isWildcard(segment: string) {
+  return segment === '*' || segment === '**'
+}
+
+function matchSegments(pattern: string[], segments: string[]): boolean {
+  if (!pattern.length) return !segments.length
+  const [head, ...rest] = pattern
+  if (head === '**') {
+    for (let i = 0; i <= segments.length; i++)
+      if (matchSegments(rest, segments.slice(i))) return true
+    return false
+  }
+  if (!segments.length) return false
+  if (head !== '*' && head !== segments[0]) return false
+  return matchSegments(rest, segments.slice(1))
+}
+
+/**
+ * Compile type pattern to a matcher function.
+ * Patterns without wildcards match the type itself and any type below it ('poll' matches 'poll.added').
+ * '*' matches exactly one segment, and '**' any number of segments (including none).
+ * Patterns with wildcards must match the full type.
+ * @param pattern Type pattern, i.e. 'meeting.changed' or 'poll.*.closed'
+ */
+export function compilePattern(pattern: string) {
+  const parts = pattern.split('.')
+  const full = parts.some(isWildcard) ? parts : [...parts, '**']
+  return (type: string) => matchSegments(full, type.split('.'))
+}
+
+// Most specific first, then in registration order
+function compareEntries(a: HandlerEntry, b: HandlerEntry) {
+  return (
+    b.literals - a.literals || a.globstars - b.globstars || a.order - b.order
+  )
+}
+
+/**
+ * Keeps type handlers by pattern, and resolves handlers for message types.
+ */
+export default class HandlerRegistry {
+  private cache = new Map<string, HandlerEntry[]>()
+  private entries: HandlerEntry[] = []
+  private order = 0
+
+  /**
+   * @returns Function to remove handler
+   */
+  public add(pattern: string, handler: TypeHandler, channel?: string) {
+    const existing = this.find(pattern, handler, channel)
+    if (existing) return () => this.removeEntry(existing)
+    const parts = pattern.split('.')
+    const entry: HandlerEntry = {
+      pattern,
+      handler,
+      channel,
+      order: this.order++,
+      literals: parts.filter((p) => !isWildcard(p)).length,
+      globstars: parts.filter((p) => p === '**').length,
+      matches: compilePattern(pattern)
+    }
+    this.entries.push(entry)
+    this.cache.clear()
+    return () => this.removeEntry(entry)
+  }
+
+  public remove(pattern: string, handler: TypeHandler, channel?: string) {
+    const entry = this.find(pattern, handler, channel)
+    if (entry) this.removeEntry(entry)
+  }
+
+  /**
+   * Handlers matching type, most specific pattern first.
+   * @param type Message type
+   * @param channel Channel path message originates from - includes handlers for that channel
+   */
+  public get(type: string, channel?: string) {
+    let matching = this.cache.get(type)
+    if (!matching) {
+      matching = this.entries
+        .filter((entry) => entry.matches(type))
+        .sort(compareEntries)
+      this.cache.set(type, matching)
+    }
+    return matching
+      .filter((entry) => !entry.channel || entry.channel === channel)
+      .map((entry) => entry.handler)
+  }
+
+  private find(pattern: string, handler: TypeHandler, channel?: string) {
+    return this.entries.find(
+      (entry) =>
+        entry.pattern === pattern &&
+        entry.handler === handler &&
+        entry.channel === channel
+    )
+  }
+
+  private removeEntry(entry: HandlerEntry) {
+    const index = this.entries.indexOf(entry)
+    if (index === -1) return
+    this.entries.splice(index, 1)
+    this.cache.clear()
+  }
+}
@@ -0,0 +1,194 @@
+import { JSONSchema, JSONSchemaType, PydanticError } from './types'
+
+function getType(value: unknown): JSONSchemaType {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  if (typeof value === 'number')
+    return Number.isInteger(value) ? 'integer' : 'number'
+  return typeof value as JSONSchemaType
+}
+
+function matchesType(value: unknown, type: JSONSchema['type']) {
+  if (!type) return true
+  const actual = getType(value)
+  const types = Array.isArray(type) ? type : [type]
+  // Integers are numbers too
+  return types.some(
+    (t) => t === actual || (t === 'number' && actual === 'integer')
+  )
+}
+
+// Pydantic error types, for type mismatch
+const TYPE_ERRORS: Record<JSONSchemaType, string> = {
+  string: 'string_type',
+  number: 'float_type',
+  integer: 'int_type',
+  boolean: 'bool_type',
+  object: 'dict_type',
+  array: 'list_type',
+  null: 'none_required'
+}
+
+function resolveRef(root: JSONSchema, ref: string): JSONSchema {
+  // Only local references supported, i.e. "#/$defs/Name"
+  let schema: unknown = root
+  for (const part of ref.replace(/^#\/?/, '').split('/').filter(Boolean))
+    schema =
+      schema && typeof schema === 'object'
+        ? (schema as Record<string, unknown>)[part]
+        : undefined
+  if (!schema || typeof schema !== 'object')
+    throw new Error(`Could not resolve schema reference ${ref}`)
+  return schema as JSONSchema
+}
+
+/**
+ * Check value against a JSON schema. Supports the subset of JSON schema generated by Pydantic.
+ * @param schema JSON schema
+ * @param value Value to check
+ * @returns List of errors, in the same format as server validation errors
+ */
+export function checkSchema(
+  schema: JSONSchema,
+  value: unknown,
+  root: JSONSchema = schema,
+  loc: PydanticError['loc'] = []
+): PydanticError[] {
+  if (schema.$ref)
+    return checkSchema(resolveRef(root, schema.$ref), value, root, loc)
+
+  const error = (type: string, msg: string): PydanticError[] => [
+    { loc, msg, type }
+  ]
+
+  if (schema.allOf)
+    return schema.allOf.flatMap((sub) => checkSchema(sub, value, root, loc))
+  const alternatives = schema.anyOf ?? schema.oneOf
+  if (
+    alternatives &&
+    !alternatives.some((sub) => !checkSchema(sub, value, root, loc).length)
+  )
+    return error('union', 'Input does not match any of the allowed types')
+
+  if (value === undefined) return error('missing', 'Field required')
+  if (!matchesType(value, schema.type)) {
+    const types = ([] as JSONSchemaType[]).concat(schema.type!)
+    return error(
+      TYPE_ERRORS[types[0]],
+      `Input should be of type ${types.join(' or ')}`
+    )
+  }
+  if ('const' in schema && value !== schema.const)
+    return error(
+      'literal_error',
+      `Input should be ${JSON.stringify(schema.const)}`
+    )
+  if (schema.enum && !schema.enum.includes(value))
+    return error(
+      'enum',
+      `Input should be one of ${schema.enum.map((v) => JSON.stringify(v)).join(', ')}`
+    )
+
+  switch (getType(value)) {
+    case 'string': {
+      const str = value as string
+      if (schema.minLength !== undefined && str.length < schema.minLength)
+        return error(
+          'string_too_short',
+          `String should have at least ${schema.minLength} characters`
+        )
+      if (schema.maxLength !== undefined && str.length > schema.maxLength)
+        return error(
+          'string_too_long',
+          `String should have at most ${schema.maxLength} characters`
+        )
+      if (schema.pattern && !new RegExp(schema.pattern).test(str))
+        return error(
+          'string_pattern_mismatch',
+          `String should match pattern '${schema.pattern}'`
+        )
+      return []
+    }
+    case 'integer':
+    case 'number': {
+      const num = value as number
+      if (schema.minimum !== undefined && num < schema.minimum)
+        return error(
+          'greater_than_equal',
+          `Input should be greater than or equal to ${schema.minimum}`
+        )
+      if (schema.maximum !== undefined && num > schema.maximum)
+        return error(
+          'less_than_equal',
+          `Input should be less than or equal to ${schema.maximum}`
+        )
+      if (
+        schema.exclusiveMinimum !== undefined &&
+        num <= schema.exclusiveMinimum
+      )
+        return error(
+          'greater_than',
+          `Input should be greater than ${schema.exclusiveMinimum}`
+        )
+      if (
+        schema.exclusiveMaximum !== undefined &&
+        num >= schema.exclusiveMaximum
+      )
+        return error(
+          'less_than',
+          `Input should be less than ${schema.exclusiveMaximum}`
+        )
+      return []
+    }
+    case 'array': {
+      const arr = value as unknown[]
+      if (schema.minItems !== undefined && arr.length < schema.minItems)
+        return error(
+          'too_short',
+          `List should have at least ${schema.minItems} items`
+        )
+      if (schema.maxItems !== undefined && arr.length > schema.maxItems)
+        return error(
+          'too_long',
+          `List should have at most ${schema.maxItems} items`
+        )
+      const { items } = schema
+      if (!items) return []
+      return arr.flatMap((item, index) =>
+        checkSchema(items, item, root, [...loc, index])
+      )
+    }
+    case 'object': {
+      const obj = value as Record<string, unknown>
+      const properties = schema.properties ?? {}
+      const errors: PydanticError[] = []
+      for (const key of schema.required ?? [])
+        if (!(key in obj))
+          errors.push({
+            loc: [...loc, key],
+            msg: 'Field required',
+            type: 'missing'
+          })
+      for (const [key, item] of Object.entries(obj)) {
+        const propSchema = properties[key]
+        if (propSchema)
+          errors.push(...checkSchema(propSchema, item, root, [...loc, key]))
+        else if (schema.additionalProperties === false)
+          errors.push({
+            loc: [...loc, key],
+            msg: 'Extra inputs are not permitted',
+            type: 'extra_forbidden'
+          })
+        else if (typeof schema.additionalProperties === 'object')
+          errors.push(
+            ...checkSchema(schema.additionalProperties, item, root, [
+              ...loc,
+              key
+            ])
+          )
+      }
+      return errors
+    }
+  }
+  return []
+}
@@ -0,0 +1,66 @@
+import { expect, jest, test } from '@jest/globals'
+
+import {
+  REDACTED,
+  createConsoleLogger,
+  createSocketLogger,
+  silentLogger
+} from './logger'
+import { Logger } from './types'
+
+function createMockLogger(level?: Logger['level']) {
+  return {
+    level,
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn()
+  }
+}
+
+test('console logger levels', () => {
+  const warn = jest.spyOn(console, 'warn').mockImplementation(() => {})
+  const debug = jest.spyOn(console, 'debug').mockImplementation(() => {})
+  const logger = createConsoleLogger('info')
+  logger.debug('Hidden')
+  logger.warn('Shown', { t: 'test' })
+  expect(debug).not.toBeCalled()
+  expect(warn).toBeCalledWith('[envelope] Shown', { t: 'test' })
+  warn.mockRestore()
+  debug.mockRestore()
+})
+
+test('socket logger redaction', () => {
+  const mock = createMockLogger()
+  const logger = createSocketLogger(mock, ['password', 'token'])
+  logger.info('Sent', {
+    t: 'user.login',
+    payload: { user: 'jane', password: 'secret', nested: [{ token: 'abc' }] }
+  })
+  expect(mock.info).toBeCalledWith('Sent', {
+    t: 'user.login',
+    payload: { user: 'jane', password: REDACTED, nested: [{ token: REDACTED }] }
+  })
+
+  const fnLogger = createSocketLogger(mock, (payload, t) =>
+    t === 'user.login' ? undefined : payload
+  )
+  fnLogger.debug('Sent', { t: 'user.login', payload: { password: 'secret' } })
+  expect(mock.debug).toBeCalledWith('Sent', {
+    t: 'user.login',
+    payload: undefined
+  })
+})
+
+test('socket logger skips levels', () => {
+  const mock = createMockLogger('warn')
+  const logger = createSocketLogger(mock)
+  logger.debug('Skipped')
+  logger.info('Skipped')
+  logger.error('Logged')
+  expect(mock.debug).not.toBeCalled()
+  expect(mock.info).not.toBeCalled()
+  expect(mock.error).toBeCalledWith('Logged', undefined)
+  // Silent logger does nothing
+  expect(() => createSocketLogger(silentLogger).error('Nope')).not.toThrow()
+})
@@ -0,0 +1,84 @@
+import { LogFields, LogLevel, Logger, Redactor } from './types'
+
+const LEVELS: Record<LogLevel | 'silent', number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+  silent: 4
+}
+
+const noop = () => {}
+
+export const silentLogger: Logger = {
+  level: 'silent',
+  debug: noop,
+  info: noop,
+  warn: noop,
+  error: noop
+}
+
+/**
+ * Logs to console, with fields as a second argument
+ * @param level Minimum level to log
+ */
+export function createConsoleLogger(level: LogLevel = 'info'): Logger {
+  const method =
+    (logLevel: LogLevel) => (message: string, fields?: LogFields) => {
+      if (LEVELS[logLevel] < LEVELS[level]) return
+      if (fields) console[logLevel](`[envelope] ${message}`, fields)
+      else console[logLevel](`[envelope] ${message}`)
+    }
+  return {
+    level,
+    debug: method('debug'),
+    info: method('info'),
+    warn: method('warn'),
+    error: method('error')
+  }
+}
+
+export const REDACTED = '[redacted]'
+
+function redactKeys(value: unknown, keys: Set<string>): unknown {
+  if (Array.isArray(value)) return value.map((item) => redactKeys(item, keys))
+  if (!value || typeof value !== 'object') return value
+  return Object.fromEntries(
+    Object.entries(value).map(([key, v]) => [
+      key,
+      keys.has(key) ? REDACTED : redactKeys(v, keys)
+    ])
+  )
+}
+
+/**
+ * Wraps logger, skipping levels it won't log and redacting payloads.
+ * @param logger Logger to wrap
+ * @param redact Field names to redact, or redaction function
+ */
+export function createSocketLogger(logger: Logger, redact?: Redactor): Logger {
+  const keys = Array.isArray(redact) ? new Set(redact) : undefined
+  const minLevel = LEVELS[logger.level ?? 'debug']
+
+  function redactFields(fields?: LogFields) {
+    if (!fields || fields.payload === undefined || !redact) return fields
+    const payload =
+      typeof redact === 'function'
+        ? redact(fields.payload, fields.t)
+        : redactKeys(fields.payload, keys!)
+    return { ...fields, payload }
+  }
+
+  const method = (level: LogLevel) =>
+    LEVELS[level] < minLevel
+      ? noop
+      : (message: string, fields?: LogFields) =>
+          logger[level](message, redactFields(fields))
+  return {
+    level: logger.level,
+    debug: method('debug'),
+    info: method('info'),
+    warn: method('warn'),
+    error: method('error')
+  }
+}
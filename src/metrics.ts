@@ -0,0 +1,198 @@
+import { State } from './types'
+
+/**
+ * Failed is a failure response from server, error is any local failure (i.e. invalid payload)
+ */
+export type CallOutcome = 'success' | 'failed' | 'timeout' | 'aborted' | 'error'
+
+export interface DurationStats {
+  count: number
+  min: number
+  max: number
+  mean: number
+}
+
+export interface TypeMetrics {
+  calls: number
+  success: number
+  failed: number
+  timeouts: number
+  aborted: number
+  errors: number
+  // From sent until final response (ms)
+  roundTrip: DurationStats
+  // Time server reported call as queued (ms)
+  queued: DurationStats
+  // Time server reported call as running (ms)
+  running: DurationStats
+}
+
+export interface MetricsSnapshot {
+  // Time covered by snapshot (ms)
+  duration: number
+  messagesIn: number
+  messagesOut: number
+  reconnectAttempts: number
+  reconnects: number
+  types: Record<string, TypeMetrics>
+}
+
+class DurationCollector {
+  private count = 0
+  private min = Infinity
+  private max = 0
+  private total = 0
+
+  public add(ms: number) {
+    this.count++
+    this.total += ms
+    this.min = Math.min(this.min, ms)
+    this.max = Math.max(this.max, ms)
+  }
+
+  public toJSON(): DurationStats {
+    if (!this.count) return { count: 0, min: 0, max: 0, mean: 0 }
+    return {
+      count: this.count,
+      min: this.min,
+      max: this.max,
+      mean: this.total / this.count
+    }
+  }
+}
+
+class TypeCollector {
+  public calls = 0
+  public outcomes: Record<CallOutcome, number> = {
+    success: 0,
+    failed: 0,
+    timeout: 0,
+    aborted: 0,
+    error: 0
+  }
+  public roundTrip = new DurationCollector()
+  public queued = new DurationCollector()
+  public running = new DurationCollector()
+
+  public toJSON(): TypeMetrics {
+    return {
+      calls: this.calls,
+      success: this.outcomes.success,
+      failed: this.outcomes.failed,
+      timeouts: this.outcomes.timeout,
+      aborted: this.outcomes.aborted,
+      errors: this.outcomes.error,
+      roundTrip: this.roundTrip.toJSON(),
+      queued: this.queued.toJSON(),
+      running: this.running.toJSON()
+    }
+  }
+}
+
+/**
+ * Collects call and connection metrics. Enable with SocketOptions.metrics.
+ * Use snapshot() to export numbers, optionally resetting them.
+ */
+export default class Metrics {
+  private messagesIn = 0
+  private messagesOut = 0
+  private reconnectAttempts = 0
+  private reconnects = 0
+  private since = performance.now()
+  private types = new Map<string, TypeCollector>()
+
+  private getType(t: string) {
+    let collector = this.types.get(t)
+    if (!collector) {
+      collector = new TypeCollector()
+      this.types.set(t, collector)
+    }
+    return collector
+  }
+
+  public messageIn() {
+    this.messagesIn++
+  }
+
+  public messageOut() {
+    this.messagesOut++
+  }
+
+  public reconnectAttempt() {
+    this.reconnectAttempts++
+  }
+
+  public reconnected() {
+    this.reconnects++
+  }
+
+  /**
+   * Track a call, from when it is made until it is settled
+   * @param t Message type
+   */
+  public trackCall(t: string) {
+    const collector = this.getType(t)
+    collector.calls++
+    let sentAt: number | undefined
+    let state: State | undefined
+    let stateAt = 0
+
+    // Close period server reported for current state
+    function endState(now: number) {
+      if (state === State.Queued) collector.queued.add(now - stateAt)
+      else if (state === State.Running) collector.running.add(now - stateAt)
+    }
+
+    return {
+      sent() {
+        sentAt = performance.now()
+      },
+      progress(s: State.Queued | State.Running) {
+        if (s === state) return
+        const now = performance.now()
+        endState(now)
+        state = s
+        stateAt = now
+      },
+      done(outcome: CallOutcome) {
+        const now = performance.now()
+        endState(now)
+        collector.outcomes[outcome]++
+        // Only count round trip for answered calls
+        if (
+          sentAt !== undefined &&
+          (outcome === 'success' || outcome === 'failed')
+        )
+          collector.roundTrip.add(now - sentAt)
+      }
+    }
+  }
+
+  /**
+   * Current metrics, in a JSON serializable format
+   * @param reset Start over after taking snapshot
+   */
+  public snapshot(reset = false): MetricsSnapshot {
+    const snapshot: MetricsSnapshot = {
+      duration: performance.now() - this.since,
+      messagesIn: this.messagesIn,
+      messagesOut: this.messagesOut,
+      reconnectAttempts: this.reconnectAttempts,
+      reconnects: this.reconnects,
+      types: Object.fromEntries(
+        [...this.types].map(([t, collector]) => [t, collector.toJSON()])
+      )
+    }
+    if (reset) this.reset()
+    return snapshot
+  }
+
+  public reset() {
+    this.messagesIn = 0
+    this.messagesOut = 0
+    this.reconnectAttempts = 0
+    this.reconnects = 0
+    this.since = performance.now()
+    this.types.clear()
+  }
+}
@@ -0,0 +1,42 @@
+import { MiddlewareHandler, MiddlewareNext } from './types'
+
+/**
+ * Pass message through middleware handlers in order, ending with done.
+ * Handlers calling next synchronously keep the whole chain synchronous.
+ * A handler that returns (or whose promise resolves) without calling next has dropped the message.
+ * @param handlers Middleware handlers
+ * @param message Message to process
+ * @param done Called with resulting message, unless dropped by a handler
+ * @param onError Called if an async handler rejects (sync errors are thrown)
+ * @param onDrop Called if a handler drops the message
+ */
+export function runMiddleware<M>(
+  handlers: MiddlewareHandler<M>[],
+  message: M,
+  done: MiddlewareNext<M>,
+  onError: (error: unknown) => void,
+  onDrop?: () => void
+) {
+  function dispatch(index: number, msg: M) {
+    if (index === handlers.length) return done(msg)
+    let called = false
+    let finished = false
+    const finish = () => {
+      finished = true
+      if (!called) onDrop?.()
+    }
+    const result = handlers[index](msg, (next) => {
+      // Calling next more than once would duplicate message, and after finishing it's already dropped
+      if (called || finished) return
+      called = true
+      dispatch(index + 1, next)
+    })
+    if (result instanceof Promise)
+      result.then(finish, (error) => {
+        finished = true
+        onError(error)
+      })
+    else finish()
+  }
+  dispatch(0, message)
+}
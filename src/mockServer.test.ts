@@ -0,0 +1,115 @@
+import { expect, jest, test } from '@jest/globals'
+
+import Socket from './Socket'
+import { ValidationError } from './errors'
+import MockEnvelopeServer from './mockServer'
+import { ReadyState, SocketOptions, State } from './types'
+
+/* No global WebSocket needed */
+
+async function createSocket(opts?: SocketOptions) {
+  const server = new MockEnvelopeServer()
+  const connected = server.connected()
+  const socket = new Socket('ws://mock', {
+    ...opts,
+    WebSocket: server.WebSocket
+  })
+  await connected
+  return { server, socket }
+}
+
+test('Mock server subscriptions', async () => {
+  const { server, socket } = await createSocket({
+    subscriptions: { leaveDelay: 0 }
+  })
+  const handler = jest.fn()
+  socket.addTypeHandler('poll', handler)
+  server.setAppState({ channel_type: 'meeting', pk: 1 }, [
+    { t: 'poll.added', p: { pk: 1 } }
+  ])
+
+  const { leave, promise } = socket.channels.subscribe('meeting', 1)
+  await promise
+  expect(handler).toBeCalledWith(
+    expect.objectContaining({ t: 'poll.added', p: { pk: 1 } })
+  )
+  expect(server.subscriptions).toEqual(new Set(['meeting/1']))
+
+  server.publish({ channel_type: 'meeting', pk: 1 }, { t: 'poll.changed' })
+  server.publish({ channel_type: 'meeting', pk: 2 }, { t: 'poll.changed' })
+  server.publishBatch({ channel_type: 'meeting', pk: 1 }, 'poll.closed', [
+    { pk: 1 },
+    { pk: 2 }
+  ])
+  await new Promise((resolve) => setTimeout(resolve))
+  expect(handler).toBeCalledTimes(4)
+
+  leave()
+  await new Promise((resolve) => setTimeout(resolve, 10))
+  expect(server.subscriptions).toEqual(new Set())
+  socket.close()
+})
+
+test('Mock server responders', async () => {
+  const { server, socket } = await createSocket()
+  type Vote = { choice?: number } | undefined
+  server.respond('poll.vote', async (payload: Vote, { progress }) => {
+    if (!payload?.choice)
+      throw new ValidationError('Invalid vote', [
+        { loc: ['choice'], msg: 'Field required', type: 'missing' }
+      ])
+    progress(undefined, State.Queued)
+    progress({ curr: 1, total: 1 })
+    return { ok: true }
+  })
+
+  const onProgress = jest.fn()
+  const { p } = await socket
+    .call('poll.vote', { choice: 1 })
+    .onProgress(onProgress)
+  expect(p).toEqual({ ok: true })
+  expect(onProgress).toBeCalledWith({ curr: 1, total: 1 })
+  await expect(socket.call('poll.vote', {})).rejects.toEqual(
+    expect.objectContaining({
+      message: 'Invalid vote',
+      errors: [{ loc: ['choice'], msg: 'Field required', type: 'missing' }]
+    })
+  )
+  await expect(socket.call('unknown.type')).rejects.toThrow(
+    "Unknown message type 'unknown.type'"
+  )
+  expect(server.received.map(({ t }) => t)).toEqual([
+    'poll.vote',
+    'poll.vote',
+    'unknown.type'
+  ])
+  socket.close()
+})
+
+test('Mock server disconnects', async () => {
+  const { server, socket } = await createSocket({
+    reconnect: { baseDelay: 10, jitter: 0 }
+  })
+  const readyStates: number[] = []
+  socket.on('readyState', ({ readyState }) => readyStates.push(readyState))
+  const reconnected = jest.fn()
+  socket.on('reconnected', reconnected)
+
+  server.setAvailable(false)
+  server.disconnect()
+  expect(socket.readyState).toBe(ReadyState.Closed)
+  await new Promise((resolve) => setTimeout(resolve, 20))
+  expect(server.clientCount).toBe(0)
+
+  server.setAvailable(true)
+  await server.connected()
+  expect(reconnected).toBeCalledWith({ attempt: 2 })
+  expect(readyStates).toEqual([
+    ReadyState.Closed,
+    ReadyState.Connecting,
+    ReadyState.Closed,
+    ReadyState.Connecting,
+    ReadyState.Open
+  ])
+  socket.close()
+})
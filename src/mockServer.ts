@@ -0,0 +1,299 @@
+import { jsonCodec } from './codecs'
+import { toErrorPayload } from './errors'
+import {
+  ChannelsMessage,
+  Codec,
+  EnvelopeChannel,
+  OutgoingMessage,
+  ReadyState,
+  State,
+  SubscribePayload,
+  WebSocketConstructor
+} from './types'
+import { channelPath } from './utils'
+
+export interface AppStateMessage {
+  t: string
+  p?: unknown
+}
+
+export interface ResponderContext {
+  t: string
+  i: string | null
+  /**
+   * Report progress (as State.Running), or queued state
+   */
+  progress(p?: unknown, state?: State.Queued | State.Running): void
+}
+
+/**
+ * Handles a message from client. Return value is sent as success payload.
+ * Throw ValidationError to respond with validation errors, or any other error to respond with a failure.
+ * Payload is as sent by client, unchecked. Type it with P, or narrow it.
+ */
+export type Responder<P = unknown> = (
+  payload: P,
+  ctx: ResponderContext
+) => unknown | Promise<unknown>
+
+export interface MockServerOptions {
+  /**
+   * Codec to speak with client, default JSON
+   */
+  codec?: Codec
+  /**
+   * Delay for messages in both directions (ms)
+   */
+  latency?: number
+}
+
+interface MockConnection {
+  deliver(message: ChannelsMessage): void
+  drop(code: number, reason: string): void
+  subscriptions: Set<string>
+}
+
+/**
+ * In-process Envelope server, for testing apps without a real server. Does not depend on any test runner.
+ * Pass server.WebSocket as the WebSocket option for Socket.
+ * Implements channel.subscribe and channel.leave, and answers keepalive pings.
+ * Other message types are answered by responders.
+ */
+export default class MockEnvelopeServer {
+  /**
+   * Messages received from clients
+   */
+  public received: OutgoingMessage[] = []
+  public readonly WebSocket: WebSocketConstructor
+
+  private appState = new Map<string, AppStateMessage[]>()
+  private available = true
+  private codec: Codec
+  private connections = new Set<MockConnection>()
+  private connectionHandlers: (() => void)[] = []
+  private latency: number
+  private responders = new Map<string, Responder>()
+
+  constructor(opts?: MockServerOptions) {
+    this.codec = opts?.codec ?? jsonCodec
+    this.latency = opts?.latency ?? 0
+    this.WebSocket = this.createWebSocketClass()
+  }
+
+  private later(fn: () => void) {
+    setTimeout(fn, this.latency)
+  }
+
+  private createWebSocketClass() {
+    const server = this
+    return class MockWebSocket {
+      public binaryType: BinaryType = 'blob'
+      public protocol = ''
+      public readyState: number = ReadyState.Connecting
+      public onclose: WebSocket['onclose'] = null
+      public onerror: WebSocket['onerror'] = null
+      public onmessage: WebSocket['onmessage'] = null
+      public onopen: WebSocket['onopen'] = null
+      private connection: MockConnection
+
+      constructor(_url: string | URL, protocols?: string | string[]) {
+        const protocol = `envelope.${server.codec.name}`
+        if ([protocols ?? []].flat().includes(protocol))
+          this.protocol = protocol
+        this.connection = {
+          deliver: (message) => {
+            if (this.readyState !== ReadyState.Open) return
+            this.onmessage?.call(this.self, {
+              type: 'message',
+              data: server.codec.encode(message)
+            } as MessageEvent)
+          },
+          drop: (code, reason) => this.handleClose(code, reason),
+          subscriptions: new Set()
+        }
+        server.later(() => {
+          if (this.readyState !== ReadyState.Connecting) return
+          if (!server.available) {
+            this.onerror?.call(this.self, { type: 'error' } as Event)
+            return this.handleClose(1006, 'Connection refused')
+          }
+          this.readyState = ReadyState.Open
+          server.connections.add(this.connection)
+          this.onopen?.call(this.self, { type: 'open' } as Event)
+          for (const handler of server.connectionHandlers.splice(0)) handler()
+        })
+      }
+
+      // Handlers are typed with WebSocket as this
+      private get self() {
+        return this as unknown as WebSocket
+      }
+
+      private handleClose(code: number, reason: string) {
+        if (this.readyState === ReadyState.Closed) return
+        this.readyState = ReadyState.Closed
+        server.connections.delete(this.connection)
+        this.onclose?.call(this.self, {
+          type: 'close',
+          code,
+          reason,
+          wasClean: code === 1000
+        } as CloseEvent)
+      }
+
+      public send(data: string | ArrayBuffer) {
+        if (this.readyState !== ReadyState.Open)
+          throw new Error('MockWebSocket is not open')
+        const message = server.codec.decode(data) as OutgoingMessage
+        server.later(() => server.handleMessage(this.connection, message))
+      }
+
+      public close(code = 1000, reason = '') {
+        this.readyState = ReadyState.Closing
+        server.later(() => this.handleClose(code, reason))
+      }
+    }
+  }
+
+  private async handleMessage(
+    connection: MockConnection,
+    message: OutgoingMessage
+  ) {
+    this.received.push(message)
+    const { t, i = null, p } = message
+    const respond = (s: State, p?: unknown) =>
+      connection.deliver({ t, i, s, p } as ChannelsMessage)
+    const responder = this.responders.get(t)
+    if (!responder) {
+      if (t === 'channel.subscribe')
+        return this.subscribe(connection, i, p as SubscribePayload)
+      if (t === 'channel.leave')
+        return connection.subscriptions.delete(
+          channelPath(p as SubscribePayload)
+        )
+      if (t === 's.ping')
+        return connection.deliver({ t: 's.pong', i: null } as ChannelsMessage)
+      if (i) respond(State.Failed, { msg: `Unknown message type '${t}'` })
+      return
+    }
+    try {
+      const result = await responder(p, {
+        t,
+        i,
+        progress: (p, state = State.Running) => respond(state, p)
+      })
+      // Only calls get a response
+      if (i) respond(State.Success, result)
+    } catch (error) {
+      if (i) respond(State.Failed, toErrorPayload(error))
+    }
+  }
+
+  private subscribe(
+    connection: MockConnection,
+    i: string | null,
+    channel: SubscribePayload
+  ) {
+    const path = channelPath(channel)
+    connection.subscriptions.add(path)
+    connection.deliver({
+      t: 'channel.subscribed',
+      i,
+      s: State.Success,
+      p: {
+        channel_type: channel.channel_type,
+        channel_name: `${channel.channel_type}_${channel.pk}`,
+        pk: channel.pk,
+        app_state: this.appState.get(path) ?? []
+      }
+    } as ChannelsMessage)
+  }
+
+  /**
+   * Messages sent on subscribe to channel
+   */
+  public setAppState(channel: EnvelopeChannel, appState: AppStateMessage[]) {
+    this.appState.set(channelPath(channel), appState)
+  }
+
+  /**
+   * Register responder for message type. Replaces built-in handling of channel.subscribe or channel.leave.
+   * @returns Function to remove responder
+   */
+  public respond<P = unknown>(t: string, responder: Responder<P>) {
+    this.responders.set(t, responder as Responder)
+    return () => {
+      if (this.responders.get(t) === responder) this.responders.delete(t)
+    }
+  }
+
+  /**
+   * Send message to all connected clients
+   */
+  public send(message: AppStateMessage & Partial<ChannelsMessage>) {
+    const msg = { i: null, ...message } as ChannelsMessage
+    this.later(() => {
+      for (const connection of this.connections) connection.deliver(msg)
+    })
+  }
+
+  /**
+   * Send message to clients subscribed to channel
+   */
+  public publish(channel: EnvelopeChannel, message: AppStateMessage) {
+    const path = channelPath(channel)
+    const msg = { i: null, ...message } as ChannelsMessage
+    this.later(() => {
+      for (const connection of this.connections)
+        if (connection.subscriptions.has(path)) connection.deliver(msg)
+    })
+  }
+
+  /**
+   * Send s.batch message to clients subscribed to channel
+   */
+  public publishBatch(
+    channel: EnvelopeChannel,
+    t: string,
+    payloads: unknown[]
+  ) {
+    this.publish(channel, { t: 's.batch', p: { t, payloads } })
+  }
+
+  /**
+   * Channels a client is subscribed to, as paths ("meeting/1")
+   */
+  public get subscriptions() {
+    const paths = new Set<string>()
+    for (const connection of this.connections)
+      for (const path of connection.subscriptions) paths.add(path)
+    return paths
+  }
+
+  public get clientCount() {
+    return this.connections.size
+  }
+
+  /**
+   * Resolves when next client has connected
+   */
+  public connected() {
+    return new Promise<void>((resolve) => this.connectionHandlers.push(resolve))
+  }
+
+  /**
+   * Drop all connections, as if network or server failed
+   * @param code Close code, default 1006 (abnormal closure)
+   */
+  public disconnect(code = 1006, reason = '') {
+    for (const connection of [...this.connections])
+      connection.drop(code, reason)
+  }
+
+  /**
+   * Make server refuse (or accept) new connections
+   */
+  public setAvailable(available: boolean) {
+    this.available = available
+  }
+}
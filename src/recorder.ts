@@ -0,0 +1,91 @@
+import type Socket from './Socket'
+import {
+  ChannelsMessage,
+  OutgoingMessage,
+  SocketEventHandler,
+  WebSocketLike
+} from './types'
+
+export type RecordedEntry =
+  | {
+      time: number
+      type: 'readyState'
+      readyState: WebSocketLike['readyState']
+    }
+  | { time: number; type: 'in'; message: ChannelsMessage }
+  | { time: number; type: 'out'; message: OutgoingMessage }
+
+// Omit time from each entry type
+type NewEntry<E = RecordedEntry> = E extends RecordedEntry
+  ? Omit<E, 'time'>
+  : never
+
+export interface Recording {
+  version: 1
+  // Epoch time (ms) when recording started
+  startedAt: number
+  entries: RecordedEntry[]
+}
+
+/**
+ * Records socket traffic and connection state, for replay (see createReplay).
+ * Incoming messages are recorded as received from server (before any other middleware),
+ * outgoing as sent by app.
+ */
+export default class TrafficRecorder {
+  public entries: RecordedEntry[] = []
+  private since = performance.now()
+  private startedAt = Date.now()
+
+  /**
+   * Start recording socket
+   * @returns Function to stop recording
+   */
+  public attach(socket: Socket) {
+    const removeMiddleware = socket.use(
+      {
+        incoming: (message, next) => {
+          this.add({ type: 'in', message })
+          next(message)
+        },
+        outgoing: (message, next) => {
+          this.add({ type: 'out', message })
+          next(message)
+        }
+      },
+      'first'
+    )
+    const readyStateHandler: SocketEventHandler = ({ readyState }) => {
+      this.add({ type: 'readyState', readyState })
+    }
+    if (socket.readyState !== undefined)
+      this.add({ type: 'readyState', readyState: socket.readyState })
+    socket.on('readyState', readyStateHandler)
+    return () => {
+      removeMiddleware()
+      socket.off('readyState', readyStateHandler)
+    }
+  }
+
+  private add(entry: NewEntry) {
+    // Copy, so that later changes to messages are not recorded
+    this.entries.push({
+      ...structuredClone(entry),
+      time: performance.now() - this.since
+    })
+  }
+
+  public clear() {
+    this.entries = []
+    this.since = performance.now()
+    this.startedAt = Date.now()
+  }
+
+  public toJSON(): Recording {
+    return {
+      version: 1,
+      startedAt: this.startedAt,
+      entries: this.entries
+    }
+  }
+}
@@ -0,0 +1,95 @@
+import { expect, jest, test } from '@jest/globals'
+import WS from 'jest-websocket-mock'
+
+import Socket from './Socket'
+import TrafficRecorder, { Recording } from './recorder'
+import { createReplay } from './replay'
+
+async function recordSession() {
+  const server = new WS('ws://localhost:1234', { jsonProtocol: true })
+  const socket = new Socket('ws://localhost:1234', {
+    manual: true,
+    subscriptions: { leaveDelay: 0 }
+  })
+  const recorder = new TrafficRecorder()
+  recorder.attach(socket)
+  socket.connect()
+  await server.connected
+
+  const { promise } = socket.channels.subscribe('meeting', 1)
+  await server.nextMessage
+  server.send({
+    t: 'channel.subscribed',
+    i: '1',
+    s: 's',
+    p: {
+      channel_type: 'meeting',
+      channel_name: 'meeting_1',
+      pk: 1,
+      app_state: [{ t: 'poll.added', p: { pk: 1 } }]
+    }
+  })
+  await promise
+  server.send({ t: 's.batch', p: { t: 'poll.changed', payloads: [{ pk: 1 }] } })
+  server.send({ t: 'poll.closed', p: { pk: 1 } })
+  server.close()
+  WS.clean()
+  // Serializable
+  return JSON.parse(JSON.stringify(recorder)) as Recording
+}
+
+test('TrafficRecorder', async () => {
+  const recording = await recordSession()
+  expect(recording.version).toBe(1)
+  expect(
+    recording.entries.map((entry) =>
+      entry.type === 'readyState'
+        ? `readyState ${entry.readyState}`
+        : `${entry.type} ${entry.message.t}`
+    )
+  ).toEqual([
+    'readyState 0',
+    'readyState 1',
+    'out channel.subscribe',
+    'in channel.subscribed',
+    'in s.batch',
+    'in poll.closed',
+    'readyState 3'
+  ])
+  const times = recording.entries.map((entry) => entry.time)
+  expect(times).toEqual([...times].sort((a, b) => a - b))
+})
+
+test('Replay recording', async () => {
+  const recording = await recordSession()
+  const beforeAppState = jest.fn()
+  const { play, sent, socket } = createReplay(recording, {
+    beforeAppStateHandler: beforeAppState
+  })
+  const events: string[] = []
+  socket.addTypeHandler('poll', ({ t, p }) => {
+    events.push(`${t} ${(p as { pk: number }).pk}`)
+  })
+  socket.channels.onSubscriptionChanged(({ channelType, pk, subscribed }) =>
+    events.push(`${channelType}/${pk} ${subscribed}`)
+  )
+  socket.on('readyState', ({ readyState }) =>
+    events.push(`readyState ${readyState}`)
+  )
+
+  await play({ speed: Infinity })
+  expect(beforeAppState).toBeCalledWith({ channelType: 'meeting', pk: 1 })
+  expect(events).toEqual([
+    'readyState 0',
+    'readyState 1',
+    'poll.added 1',
+    'meeting/1 true',
+    'poll.changed 1',
+    'poll.closed 1',
+    'readyState 3'
+  ])
+  // Subscription was made by replay
+  expect(sent).toEqual([
+    { t: 'channel.subscribe', i: '1', p: { channel_type: 'meeting', pk: 1 } }
+  ])
+})
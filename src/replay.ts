@@ -0,0 +1,152 @@
+import Socket from './Socket'
+import { jsonCodec } from './codecs'
+import { RecordedEntry, Recording } from './recorder'
+import { OutgoingMessage, ReadyState, SocketOptions } from './types'
+
+export interface ReplayOptions {
+  /**
+   * Playback speed, 1 is recorded timing. Infinity plays as fast as possible.
+   */
+  speed?: number
+  /**
+   * Subscribe to channels the recorded app subscribed to, if replaying app doesn't.
+   * Default true
+   */
+  subscribe?: boolean
+}
+
+function isSameMessage(a: OutgoingMessage, b: OutgoingMessage) {
+  return a.t === b.t && JSON.stringify(a.p) === JSON.stringify(b.p)
+}
+
+/**
+ * Replays a recording into a new Socket, without a server.
+ * Register type handlers and subscribe to channels on socket before calling play().
+ * Message ids in recording are mapped to the calls replaying app makes, so that calls and
+ * subscriptions resolve as they did when recording.
+ * @param recording Recording, from TrafficRecorder
+ * @param opts Options for socket
+ */
+export function createReplay(
+  recording: Recording,
+  opts?: Omit<SocketOptions, 'WebSocket'>
+) {
+  // Messages sent by replaying app
+  const sent: OutgoingMessage[] = []
+  // Recorded id => replay id
+  const ids = new Map<string, string>()
+  const matched = new Set<OutgoingMessage>()
+  let ws: ReplayWebSocket | undefined
+
+  class ReplayWebSocket {
+    public binaryType: BinaryType = 'blob'
+    public protocol = ''
+    public readyState: number = ReadyState.Connecting
+    public onclose: WebSocket['onclose'] = null
+    public onerror: WebSocket['onerror'] = null
+    public onmessage: WebSocket['onmessage'] = null
+    public onopen: WebSocket['onopen'] = null
+
+    constructor() {
+      ws = this
+    }
+
+    public send(data: string) {
+      sent.push(JSON.parse(data))
+    }
+
+    public close() {
+      this.readyState = ReadyState.Closed
+    }
+  }
+
+  const socket = new Socket('ws://replay', {
+    ...opts,
+    codec: jsonCodec,
+    manual: true,
+    reconnect: false,
+    WebSocket: ReplayWebSocket
+  })
+
+  function mapId(recorded: OutgoingMessage) {
+    const match = sent.find(
+      (msg) => !matched.has(msg) && isSameMessage(msg, recorded)
+    )
+    if (!match) return false
+    matched.add(match)
+    if (recorded.i && match.i) ids.set(recorded.i, match.i)
+    return true
+  }
+
+  function setReadyState(readyState: number) {
+    // Recording might start on an open connection
+    if (!ws || readyState === ReadyState.Connecting) socket.connect()
+    const current = ws!
+    current.readyState = readyState
+    // Handlers are typed with a WebSocket this, and expects real events
+    const self = current as unknown as WebSocket
+    if (readyState === ReadyState.Open)
+      current.onopen?.call(self, { type: 'open' } as Event)
+    else if (readyState === ReadyState.Closed)
+      current.onclose?.call(self, {
+        type: 'close',
+        code: 1000,
+        reason: '',
+        wasClean: true
+      } as CloseEvent)
+  }
+
+  function apply(entry: RecordedEntry, subscribe: boolean) {
+    switch (entry.type) {
+      case 'readyState':
+        setReadyState(entry.readyState)
+        break
+      case 'out':
+        if (mapId(entry.message) || !subscribe) break
+        if (entry.message.t === 'channel.subscribe') {
+          const { channel_type, pk } = entry.message.p as {
+            channel_type: string
+            pk: number
+          }
+          socket.channels.subscribe(channel_type, pk).promise.catch(() => {})
+          mapId(entry.message)
+        }
+        break
+      case 'in': {
+        if (!ws) return
+        const { i } = entry.message
+        const message = i
+          ? { ...entry.message, i: ids.get(i) ?? i }
+          : entry.message
+        ws.onmessage?.call(
+          ws as unknown as WebSocket,
+          {
+            type: 'message',
+            data: JSON.stringify(message)
+          } as MessageEvent
+        )
+      }
+    }
+  }
+
+  /**
+   * Play recording
+   * @returns Promise resolving when all entries are played
+   */
+  async function play({ speed = 1, subscribe = true }: ReplayOptions = {}) {
+    let time = 0
+    for (const entry of recording.entries) {
+      const delay = (entry.time - time) / speed
+      time = entry.time
+      // Always wait a tick, to let promises (i.e. calls) settle as they would between messages
+      await new Promise((resolve) => setTimeout(resolve, Math.max(delay, 0)))
+      apply(entry, subscribe)
+    }
+  }
+
+  return {
+    play,
+    sent,
+    socket
+  }
+}
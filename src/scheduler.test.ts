@@ -0,0 +1,102 @@
+import { expect, test } from '@jest/globals'
+
+import Socket from './Socket'
+import { ConnectionClosedError } from './errors'
+import MockEnvelopeServer from './mockServer'
+import { SocketOptions } from './types'
+
+async function createSocket(opts?: SocketOptions) {
+  const server = new MockEnvelopeServer()
+  const connected = server.connected()
+  const socket = new Socket('ws://mock', {
+    ...opts,
+    WebSocket: server.WebSocket
+  })
+  await connected
+  return { server, socket }
+}
+
+function sleep(ms?: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+test('Scheduler limits calls in flight, by priority', async () => {
+  const { server, socket } = await createSocket({
+    scheduler: { maxInFlight: 2 }
+  })
+  const answers: (() => void)[] = []
+  server.respond<{ n: number }>('job', ({ n }) => {
+    return new Promise((resolve) => answers.push(() => resolve(n)))
+  })
+  const calls = [
+    socket.call('job', { n: 1 }),
+    socket.call('job', { n: 2 }),
+    socket.call('job', { n: 3 }, { priority: -1 }),
+    socket.call('job', { n: 4 })
+  ]
+  // Not a call, so not held back
+  socket.send('notice')
+  await sleep(10)
+  const received = () => server.received.map(({ p }) => (p as any)?.n)
+  expect(received()).toEqual([1, 2, undefined])
+
+  answers.shift()!()
+  await sleep(10)
+  expect(received()).toEqual([1, 2, undefined, 4])
+  answers.shift()!()
+  answers.shift()!()
+  await sleep(10)
+  expect(received()).toEqual([1, 2, undefined, 4, 3])
+  answers.shift()!()
+  expect((await Promise.all(calls)).map(({ p }) => p)).toEqual([1, 2, 3, 4])
+  socket.close()
+})
+
+test('Scheduler limits rate, call timeouts start when sent', async () => {
+  const { server, socket } = await createSocket({
+    scheduler: { perSecond: 2 }
+  })
+  server.respond('job', () => 'done')
+  const start = performance.now()
+  socket.send('first')
+  socket.send('second')
+  const { p } = await socket.call('job', {}, { timeout: 100 })
+  expect(p).toBe('done')
+  expect(performance.now() - start).toBeGreaterThanOrEqual(900)
+  expect(server.received.map(({ t }) => t)).toEqual(['first', 'second', 'job'])
+  socket.close()
+})
+
+test('Scheduled calls fail when connection is lost', async () => {
+  const { server, socket } = await createSocket({
+    scheduler: { maxInFlight: 1 }
+  })
+  server.respond('job', () => new Promise(() => {}))
+  socket.call('job', {}, { timeout: 50 }).catch(() => {})
+  const waiting = socket.call('job')
+  await sleep()
+  server.disconnect()
+  await expect(waiting).rejects.toThrow('Socket not open')
+  socket.close()
+})
+
+test('Scheduled calls are queued when connection is lost', async () => {
+  const { server, socket } = await createSocket({
+    queue: true,
+    reconnect: { baseDelay: 10, jitter: 0 },
+    scheduler: { maxInFlight: 1 }
+  })
+  let answer = false
+  server.respond<{ n: number }>('job', ({ n }) =>
+    answer ? n : new Promise(() => {})
+  )
+  const sent = socket.call('job', { n: 1 })
+  const waiting = socket.call('job', { n: 2 })
+  await sleep(10)
+  server.disconnect()
+  await expect(sent).rejects.toBeInstanceOf(ConnectionClosedError)
+  // Sent after reconnect, not on closed socket
+  answer = true
+  expect((await waiting).p).toBe(2)
+  socket.close()
+})
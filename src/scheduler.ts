@@ -0,0 +1,88 @@
+import { QueuedMessage, SchedulerOptions } from './types'
+
+// Rate limit window (ms)
+const WINDOW = 1_000
+
+/**
+ * Sends messages by priority, limiting outbound rate and number of calls in flight.
+ * Messages of same priority are sent in order.
+ */
+export default class Scheduler {
+  private dispatch: (queued: QueuedMessage) => void
+  private inFlight = new Set<string>()
+  private options: Required<SchedulerOptions>
+  // Send times within window
+  private sent: number[] = []
+  private timeout?: NodeJS.Timeout
+  private waiting: QueuedMessage[] = []
+
+  constructor(
+    options: Required<SchedulerOptions>,
+    dispatch: (queued: QueuedMessage) => void
+  ) {
+    this.dispatch = dispatch
+    this.options = options
+  }
+
+  public get size() {
+    return this.waiting.length
+  }
+
+  /**
+   * Send message when allowed, synchronously if possible
+   * @returns true if message is waiting
+   */
+  public schedule(queued: QueuedMessage) {
+    const priority = queued.priority ?? 0
+    const index = this.waiting.findIndex((q) => (q.priority ?? 0) < priority)
+    if (index === -1) this.waiting.push(queued)
+    else this.waiting.splice(index, 0, queued)
+    this.run()
+    return this.waiting.includes(queued)
+  }
+
+  public remove(queued: QueuedMessage) {
+    this.waiting = this.waiting.filter((q) => q !== queued)
+  }
+
+  /**
+   * Call has settled, freeing a slot. Safe to call for calls not in flight.
+   * @param i Message id of call
+   */
+  public release(i: string) {
+    if (this.inFlight.delete(i)) this.run()
+  }
+
+  /**
+   * Stop sending
+   * @returns Messages that were waiting
+   */
+  public clear() {
+    clearTimeout(this.timeout)
+    this.timeout = undefined
+    return this.waiting.splice(0)
+  }
+
+  private canSend(queued: QueuedMessage) {
+    return !queued.call || this.inFlight.size < this.options.maxInFlight
+  }
+
+  private run() {
+    clearTimeout(this.timeout)
+    this.timeout = undefined
+    const now = performance.now()
+    while (this.sent.length && now - this.sent[0] >= WINDOW) this.sent.shift()
+    while (this.sent.length < this.options.perSecond) {
+      const queued = this.waiting.find((q) => this.canSend(q))
+      if (!queued) return
+      this.remove(queued)
+      this.sent.push(now)
+      if (queued.call && queued.message.i) this.inFlight.add(queued.message.i)
+      this.dispatch(queued)
+    }
+    // Rate limited, continue when oldest send leaves window
+    if (!this.waiting.length) return
+    clearTimeout(this.timeout)
+    this.timeout = setTimeout(() => this.run(), this.sent[0] + WINDOW - now)
+  }
+}
@@ -0,0 +1,151 @@
+import { expect, jest, test } from '@jest/globals'
+
+import Socket from './Socket'
+import MockEnvelopeServer from './mockServer'
+
+function sleep(ms?: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+function createTab(server: MockEnvelopeServer, name: string) {
+  return new Socket('ws://mock', {
+    getMessageChannel: ({ p }) => {
+      const meeting = (p as { meeting?: number } | undefined)?.meeting
+      return meeting ? { channel_type: 'meeting', pk: meeting } : undefined
+    },
+    reconnect: { baseDelay: 10, jitter: 0 },
+    shared: { name, electionTimeout: 10, heartbeatInterval: 50 },
+    subscriptions: { leaveDelay: 0 },
+    WebSocket: server.WebSocket
+  })
+}
+
+async function waitFor(check: () => boolean) {
+  for (let n = 0; n < 100 && !check(); n++) await sleep(10)
+  expect(check()).toBe(true)
+}
+
+test('Shared connection between tabs', async () => {
+  const server = new MockEnvelopeServer()
+  server.respond('echo', (p) => p)
+  const first = createTab(server, 'shared-test-1')
+  await waitFor(() => first.isOpen)
+  const second = createTab(server, 'shared-test-1')
+  await waitFor(() => second.isOpen)
+  expect(first.shared!.isLeader).toBe(true)
+  expect(second.shared!.isLeader).toBe(false)
+  expect(server.clientCount).toBe(1)
+
+  // Responses go to the tab that made the call
+  const [a, b] = await Promise.all([
+    first.call('echo', { tab: 1 }),
+    second.call('echo', { tab: 2 })
+  ])
+  expect(a.p).toEqual({ tab: 1 })
+  expect(b.p).toEqual({ tab: 2 })
+
+  // Cancelling keeps the id of the call
+  server.respond('slow', () => new Promise(() => {}))
+  const controller = new AbortController()
+  const slow = second.call(
+    'slow',
+    {},
+    { cancelType: 'cancel', signal: controller.signal }
+  )
+  await waitFor(() => server.received.some(({ t }) => t === 'slow'))
+  controller.abort()
+  await expect(slow).rejects.toThrow()
+  await waitFor(() => server.received.some(({ t }) => t === 'cancel'))
+  const [slowI, cancelI] = ['slow', 'cancel'].map(
+    (type) => server.received.find(({ t }) => t === type)!.i
+  )
+  expect(cancelI).toBe(slowI)
+
+  // Channels are left when no tab wants them
+  const handlers = [jest.fn(), jest.fn()]
+  first.addTypeHandler('poll', handlers[0])
+  second.addTypeHandler('poll', handlers[1])
+  const firstSub = first.channels.subscribe('meeting', 1)
+  const secondSub = second.channels.subscribe('meeting', 1)
+  await Promise.all([firstSub.promise, secondSub.promise])
+  server.publish({ channel_type: 'meeting', pk: 1 }, { t: 'poll.added' })
+  await waitFor(() => handlers.every((handler) => handler.mock.calls.length))
+
+  // Only to tabs subscribed to channel
+  const otherSub = first.channels.subscribe('meeting', 2)
+  await otherSub.promise
+  server.publish(
+    { channel_type: 'meeting', pk: 2 },
+    { t: 'poll.added', p: { meeting: 2 } }
+  )
+  await waitFor(() => handlers[0].mock.calls.length === 2)
+  await sleep(20)
+  expect(handlers[1]).toBeCalledTimes(1)
+  otherSub.leave()
+
+  firstSub.leave()
+  await sleep(20)
+  expect(server.subscriptions).toEqual(new Set(['meeting/1']))
+  secondSub.leave()
+  await waitFor(() => !server.subscriptions.size)
+
+  second.close()
+  first.close()
+})
+
+test('Shared connection leader hands over', async () => {
+  const server = new MockEnvelopeServer()
+  server.respond('echo', (p) => p)
+  const first = createTab(server, 'shared-test-2')
+  await waitFor(() => first.isOpen)
+  const second = createTab(server, 'shared-test-2')
+  await waitFor(() => second.isOpen)
+  const subscribed = second.channels.subscribe('meeting', 1)
+  await subscribed.promise
+
+  // Leader tab closes, releasing shared connection
+  const reconnected = jest.fn()
+  second.on('reconnected', reconnected)
+  first.close()
+  expect(first.shared).toBeUndefined()
+  await waitFor(() => second.shared!.isLeader)
+  await waitFor(() => reconnected.mock.calls.length > 0)
+  expect(server.clientCount).toBe(1)
+  expect((await second.call('echo', { n: 1 })).p).toEqual({ n: 1 })
+  // Resubscribed through new leader
+  await waitFor(() => server.subscriptions.has('meeting/1'))
+
+  second.close()
+})
+
+test('Shared connection left while page is hidden', async () => {
+  // Page lifecycle events, as in browser
+  const page = new EventTarget()
+  globalThis.addEventListener = page.addEventListener.bind(page)
+  globalThis.removeEventListener = page.removeEventListener.bind(page)
+  try {
+    const server = new MockEnvelopeServer()
+    const tab = createTab(server, 'shared-test-3')
+    await waitFor(() => tab.isOpen)
+    const shared = tab.shared!
+
+    page.dispatchEvent(new Event('pagehide'))
+    expect(shared.isLeader).toBe(false)
+    await waitFor(() => !server.clientCount)
+    expect(tab.isOpen).toBe(false)
+
+    // Restored from back/forward cache
+    page.dispatchEvent(new Event('pageshow'))
+    await waitFor(() => tab.isOpen)
+    expect(shared.isLeader).toBe(true)
+
+    // Closed shared connection is replaced on reconnect
+    shared.close()
+    await waitFor(() => tab.isOpen)
+    expect(tab.shared).not.toBe(shared)
+    tab.close()
+  } finally {
+    delete (globalThis as Partial<typeof globalThis>).addEventListener
+    delete (globalThis as Partial<typeof globalThis>).removeEventListener
+  }
+})
@@ -0,0 +1,598 @@
+import { jsonCodec } from './codecs'
+import { silentLogger } from './logger'
+import {
+  ChannelsMessage,
+  Codec,
+  EnvelopeChannel,
+  Logger,
+  OutgoingMessage,
+  ReadyState,
+  SharedOptions,
+  State,
+  SubscribePayload,
+  WebSocketConstructor,
+  WebSocketLike
+} from './types'
+import { channelPath } from './utils'
+
+export interface SharedConnectionOptions extends SharedOptions {
+  /**
+   * Wire format, all tabs must use the same. Default JSON.
+   */
+  codec?: Codec
+  /**
+   * Resolve channel of live messages, as SocketOptions.getMessageChannel
+   */
+  getMessageChannel?(msg: ChannelsMessage): EnvelopeChannel | undefined
+  logger?: Logger
+  /**
+   * WebSocket implementation for leader, instead of global WebSocket
+   */
+  WebSocket?: WebSocketConstructor
+}
+
+const DEFAULT_SHARED: Required<Omit<SharedOptions, 'BroadcastChannel'>> = {
+  name: 'envelope',
+  electionTimeout: 100,
+  heartbeatInterval: 1_000
+}
+
+// Events from leader to a connection
+type ConnectionEvent =
+  | { kind: 'opened'; protocol: string }
+  | { kind: 'message'; message: ChannelsMessage }
+  | { kind: 'closed'; code: number; reason: string }
+
+// Messages between tabs
+type TabMessage =
+  | { kind: 'hello' | 'leader' | 'claim' | 'resign' | 'bye'; from: string }
+  | {
+      kind: 'open'
+      to: string
+      conn: string
+      url: string
+      protocols?: string | string[]
+    }
+  | { kind: 'send'; to: string; conn: string; message: OutgoingMessage }
+  | { kind: 'close'; to: string; conn: string }
+  | (ConnectionEvent & { conn: string })
+
+interface VirtualSocket {
+  handle(event: ConnectionEvent): void
+}
+
+interface LocalConnection {
+  socket: VirtualSocket
+  url: string
+  protocols?: string | string[]
+  // Leader that open request was sent to
+  leader?: string
+}
+
+// Leader lost, or stepped down. Sockets should reconnect through new leader.
+const LEADER_LOST = { code: 1006, reason: 'Shared connection leader lost' }
+
+/**
+ * Owns the real WebSocket in leader tab, multiplexing connections from all tabs.
+ * Call ids are mapped, so that responses go to the tab that made the call.
+ * Channel subscriptions are counted, so that channels are left when no tab wants them.
+ */
+class Hub {
+  private calls = new Map<string, { conn: string; i: string }>()
+  private callID = 0
+  private codec: Codec
+  private conns = new Map<string, { opened: boolean }>()
+  private getMessageChannel?: SharedConnectionOptions['getMessageChannel']
+  private logger: Logger
+  private output: (conn: string, event: ConnectionEvent) => void
+  private subscribers = new Map<
+    string,
+    { channel: SubscribePayload; conns: Set<string> }
+  >()
+  private ws?: WebSocketLike
+  private WebSocket: WebSocketConstructor
+
+  constructor(
+    codec: Codec,
+    WebSocket: WebSocketConstructor,
+    logger: Logger,
+    output: (conn: string, event: ConnectionEvent) => void,
+    getMessageChannel?: SharedConnectionOptions['getMessageChannel']
+  ) {
+    this.codec = codec
+    this.getMessageChannel = getMessageChannel
+    this.logger = logger
+    this.output = output
+    this.WebSocket = WebSocket
+  }
+
+  public open(conn: string, url: string, protocols?: string | string[]) {
+    this.conns.set(conn, { opened: false })
+    if (!this.ws) this.connect(url, protocols)
+    else if (this.ws.readyState === ReadyState.Open) this.opened(conn)
+  }
+
+  private opened(conn: string) {
+    this.conns.set(conn, { opened: true })
+    this.output(conn, { kind: 'opened', protocol: this.ws!.protocol })
+  }
+
+  private connect(url: string, protocols?: string | string[]) {
+    const ws = new this.WebSocket(url, protocols)
+    if (this.codec.binary) ws.binaryType = 'arraybuffer'
+    ws.onopen = () => {
+      for (const [conn, { opened }] of this.conns)
+        if (!opened) this.opened(conn)
+    }
+    ws.onmessage = (event) => this.route(this.codec.decode(event.data))
+    ws.onclose = (event) => {
+      this.ws = undefined
+      this.shutdown(event.code, event.reason)
+    }
+    this.ws = ws
+  }
+
+  private route(message: ChannelsMessage) {
+    const call = message.i ? this.calls.get(message.i) : undefined
+    if (call) {
+      // Progress keeps call open
+      if (message.s === State.Success || message.s === State.Failed)
+        this.calls.delete(message.i!)
+      return this.deliver(call.conn, { ...message, i: call.i })
+    }
+    // A response we don't know where to send
+    if (message.s && message.i) return
+    // Requests from server go to one connection only, to get one response
+    if (message.i) {
+      const [conn] = this.conns.keys()
+      if (conn) this.deliver(conn, message)
+      return
+    }
+    // Channel messages go to connections subscribed to channel.
+    // Others, and messages for channels no connection subscribed to (i.e. joined by server), go to all.
+    const channel = message.channel ?? this.getMessageChannel?.(message)
+    const subscription = channel && this.subscribers.get(channelPath(channel))
+    for (const conn of subscription?.conns ?? this.conns.keys())
+      this.deliver(conn, message)
+  }
+
+  private deliver(conn: string, message: ChannelsMessage) {
+    if (this.conns.get(conn)?.opened)
+      this.output(conn, { kind: 'message', message })
+  }
+
+  public send(conn: string, message: OutgoingMessage) {
+    if (!this.conns.get(conn)?.opened) return
+    if (message.t === 'channel.subscribe') this.subscribe(conn, message)
+    if (message.t === 'channel.leave' && !this.leave(conn, message)) return
+    // Responses to server requests keep their id
+    if (message.i && !message.s)
+      message = { ...message, i: this.callId(conn, message.i) }
+    this.transmit(message)
+  }
+
+  /**
+   * Hub id for call from connection. Messages about a call in flight (i.e. cancel) get the id of that call.
+   */
+  private callId(conn: string, connI: string) {
+    for (const [i, call] of this.calls)
+      if (call.conn === conn && call.i === connI) return i
+    const i = String(++this.callID)
+    this.calls.set(i, { conn, i: connI })
+    return i
+  }
+
+  private transmit(message: OutgoingMessage) {
+    if (this.ws?.readyState !== ReadyState.Open) return
+    this.ws.send(this.codec.encode(message as ChannelsMessage))
+  }
+
+  private subscribe(conn: string, { p }: OutgoingMessage) {
+    const channel = p as SubscribePayload
+    const path = channelPath(channel)
+    const subscription = this.subscribers.get(path) ?? {
+      channel,
+      conns: new Set()
+    }
+    subscription.conns.add(conn)
+    this.subscribers.set(path, subscription)
+  }
+
+  /**
+   * @returns true if no connection is subscribed anymore
+   */
+  private leave(conn: string, { p }: OutgoingMessage) {
+    const path = channelPath(p as SubscribePayload)
+    const subscription = this.subscribers.get(path)
+    subscription?.conns.delete(conn)
+    if (subscription?.conns.size) return false
+    this.subscribers.delete(path)
+    return true
+  }
+
+  public close(conn: string) {
+    if (!this.conns.delete(conn)) return
+    for (const [i, call] of this.calls)
+      if (call.conn === conn) this.calls.delete(i)
+    for (const [path, { channel, conns }] of this.subscribers) {
+      if (!conns.delete(conn) || conns.size) continue
+      this.subscribers.delete(path)
+      this.transmit({ t: 'channel.leave', p: channel })
+    }
+    if (!this.conns.size) {
+      this.logger.debug('Closing shared connection, no tab is using it')
+      this.shutdown(1000, '')
+    }
+  }
+
+  public get connections() {
+    return [...this.conns.keys()]
+  }
+
+  /**
+   * Close real WebSocket, and all connections through it
+   */
+  public shutdown(code: number, reason: string) {
+    const ws = this.ws
+    this.ws = undefined
+    if (ws) {
+      ws.onopen = null
+      ws.onmessage = null
+      ws.onclose = null
+      ws.close()
+    }
+    for (const conn of this.conns.keys())
+      this.output(conn, { kind: 'closed', code, reason })
+    this.conns.clear()
+    this.calls.clear()
+    this.subscribers.clear()
+  }
+}
+
+/**
+ * Shares one Envelope connection between browser tabs.
+ * A leader tab is elected over BroadcastChannel, and owns the real WebSocket. Other tabs connect
+ * through it, using the WebSocket class of this object. When the leader tab goes away, another tab
+ * takes over, and sockets in all tabs reconnect through it (resubscribing to their channels).
+ * Calls from server are handed to one tab only. Live messages go to tabs subscribed to their channel,
+ * when the channel is known (tagged by server, or resolved by getMessageChannel), otherwise to all tabs.
+ */
+export default class SharedConnection {
+  public readonly id: string
+  public readonly WebSocket: WebSocketConstructor
+
+  private channel: BroadcastChannel
+  private closed = false
+  private codec: Codec
+  private createChannel: () => BroadcastChannel
+  private connID = 0
+  private conns = new Map<string, LocalConnection>()
+  private electionTimeout?: NodeJS.Timeout
+  private heartbeatInterval?: NodeJS.Timeout
+  private hub?: Hub
+  private leaderId?: string
+  private leaderTimeout?: NodeJS.Timeout
+  private logger: Logger
+  // Left while page is hidden, possibly kept in back/forward cache
+  private hidden = false
+  private onPageHide = () => this.hide()
+  private onPageShow = () => this.show()
+  private options: Required<Omit<SharedOptions, 'BroadcastChannel'>>
+  private getMessageChannel?: SharedConnectionOptions['getMessageChannel']
+  private realWebSocket?: WebSocketConstructor
+
+  constructor(opts: SharedConnectionOptions = {}) {
+    const ChannelImpl = opts.BroadcastChannel ?? BroadcastChannel
+    this.codec = opts.codec ?? jsonCodec
+    this.id = crypto.randomUUID()
+    this.logger = opts.logger ?? silentLogger
+    this.options = {
+      name: opts.name ?? DEFAULT_SHARED.name,
+      electionTimeout: opts.electionTimeout ?? DEFAULT_SHARED.electionTimeout,
+      heartbeatInterval:
+        opts.heartbeatInterval ?? DEFAULT_SHARED.heartbeatInterval
+    }
+    this.getMessageChannel = opts.getMessageChannel
+    this.realWebSocket = opts.WebSocket
+    this.WebSocket = this.createWebSocketClass()
+    this.createChannel = () => {
+      const channel = new ChannelImpl(this.options.name)
+      channel.onmessage = (event) => this.handleTabMessage(event.data)
+      return channel
+    }
+    this.channel = this.createChannel()
+    // Hand over leadership when tab goes away, and join again if it comes back
+    if (typeof globalThis.addEventListener === 'function') {
+      globalThis.addEventListener('pagehide', this.onPageHide)
+      globalThis.addEventListener('pageshow', this.onPageShow)
+    }
+    this.elect()
+  }
+
+  /**
+   * True when closed for good. Connections through it will never open.
+   */
+  public get isClosed() {
+    return this.closed
+  }
+
+  public get isLeader() {
+    return !!this.hub
+  }
+
+  private post(message: TabMessage) {
+    if (!this.closed && !this.hidden) this.channel.postMessage(message)
+  }
+
+  private createWebSocketClass() {
+    const shared = this
+    return class SharedWebSocket implements VirtualSocket {
+      public binaryType: BinaryType = 'blob'
+      public protocol = ''
+      public readyState: number = ReadyState.Connecting
+      public onclose: WebSocket['onclose'] = null
+      public onerror: WebSocket['onerror'] = null
+      public onmessage: WebSocket['onmessage'] = null
+      public onopen: WebSocket['onopen'] = null
+      private conn: string
+
+      constructor(url: string | URL, protocols?: string | string[]) {
+        this.conn = shared.register(this, String(url), protocols)
+      }
+
+      // Handlers are typed with WebSocket as this
+      private get self() {
+        return this as unknown as WebSocket
+      }
+
+      public handle(event: ConnectionEvent) {
+        switch (event.kind) {
+          case 'opened':
+            if (this.readyState !== ReadyState.Connecting) return
+            this.protocol = event.protocol
+            this.readyState = ReadyState.Open
+            this.onopen?.call(this.self, { type: 'open' } as Event)
+            break
+          case 'message':
+            if (this.readyState !== ReadyState.Open) return
+            this.onmessage?.call(this.self, {
+              type: 'message',
+              data: shared.codec.encode(event.message)
+            } as MessageEvent)
+            break
+          case 'closed':
+            if (this.readyState === ReadyState.Closed) return
+            this.readyState = ReadyState.Closed
+            shared.conns.delete(this.conn)
+            this.onclose?.call(this.self, {
+              type: 'close',
+              code: event.code,
+              reason: event.reason,
+              wasClean: event.code === 1000
+            } as CloseEvent)
+        }
+      }
+
+      public send(data: string | ArrayBuffer) {
+        if (this.readyState !== ReadyState.Open)
+          throw new Error('SharedWebSocket is not open')
+        shared.send(this.conn, shared.codec.decode(data) as OutgoingMessage)
+      }
+
+      public close(code = 1000, reason = '') {
+        if (this.readyState === ReadyState.Closed) return
+        this.readyState = ReadyState.Closing
+        shared.unregister(this.conn)
+        setTimeout(() => this.handle({ kind: 'closed', code, reason }))
+      }
+    }
+  }
+
+  private register(
+    socket: VirtualSocket,
+    url: string,
+    protocols?: string | string[]
+  ) {
+    const conn = `${this.id}:${++this.connID}`
+    this.conns.set(conn, { socket, url, protocols })
+    this.openConnection(conn)
+    return conn
+  }
+
+  // Open connection through leader, when there is one
+  private openConnection(conn: string) {
+    const local = this.conns.get(conn)
+    if (!local || !this.leaderId || local.leader) return
+    local.leader = this.leaderId
+    if (this.hub) this.hub.open(conn, local.url, local.protocols)
+    else
+      this.post({
+        kind: 'open',
+        to: this.leaderId,
+        conn,
+        url: local.url,
+        protocols: local.protocols
+      })
+  }
+
+  private send(conn: string, message: OutgoingMessage) {
+    if (this.hub) this.hub.send(conn, message)
+    else if (this.leaderId)
+      this.post({ kind: 'send', to: this.leaderId, conn, message })
+  }
+
+  private unregister(conn: string) {
+    const local = this.conns.get(conn)
+    this.conns.delete(conn)
+    if (!local?.leader) return
+    if (this.hub) this.hub.close(conn)
+    else this.post({ kind: 'close', to: local.leader, conn })
+  }
+
+  // Output from hub, to a local connection or another tab
+  private output(conn: string, event: ConnectionEvent) {
+    const local = this.conns.get(conn)
+    // Events are async, as for a real WebSocket
+    if (local) setTimeout(() => local.socket.handle(event))
+    else this.post({ ...event, conn })
+  }
+
+  private handleTabMessage(message: TabMessage) {
+    switch (message.kind) {
+      case 'hello':
+        if (this.hub) this.post({ kind: 'leader', from: this.id })
+        break
+      case 'claim':
+        if (this.hub) this.post({ kind: 'leader', from: this.id })
+        // Lowest id wins. Start over if winner doesn't take lead.
+        else if (!this.leaderId && message.from < this.id) this.elect(true)
+        break
+      case 'leader':
+        this.follow(message.from)
+        break
+      case 'resign':
+        if (message.from === this.leaderId) this.leaderLost()
+        break
+      case 'bye':
+        if (!this.hub) break
+        for (const conn of this.hub.connections)
+          if (conn.startsWith(`${message.from}:`)) this.hub.close(conn)
+        break
+      case 'open':
+        if (message.to === this.id)
+          this.hub?.open(message.conn, message.url, message.protocols)
+        break
+      case 'send':
+        if (message.to === this.id)
+          this.hub?.send(message.conn, message.message)
+        break
+      case 'close':
+        if (message.to === this.id) this.hub?.close(message.conn)
+        break
+      default:
+        this.conns.get(message.conn)?.socket.handle(message)
+    }
+  }
+
+  /**
+   * Find leader, or claim leadership if there is none
+   * @param wait Another tab has claimed leadership, wait for it
+   */
+  private elect(wait = false) {
+    clearTimeout(this.electionTimeout)
+    const { electionTimeout } = this.options
+    if (wait) {
+      this.electionTimeout = setTimeout(() => this.elect(), electionTimeout * 3)
+      return
+    }
+    this.post({ kind: 'hello', from: this.id })
+    this.electionTimeout = setTimeout(() => {
+      this.post({ kind: 'claim', from: this.id })
+      this.electionTimeout = setTimeout(() => this.lead(), electionTimeout)
+    }, electionTimeout)
+  }
+
+  private lead() {
+    this.logger.info('Leading shared connection', { tab: this.id })
+    this.hub = new Hub(
+      this.codec,
+      this.realWebSocket ?? WebSocket,
+      this.logger,
+      (conn, event) => this.output(conn, event),
+      this.getMessageChannel
+    )
+    this.leaderId = this.id
+    this.post({ kind: 'leader', from: this.id })
+    this.heartbeatInterval = setInterval(
+      () => this.post({ kind: 'leader', from: this.id }),
+      this.options.heartbeatInterval
+    )
+    for (const conn of this.conns.keys()) this.openConnection(conn)
+  }
+
+  private follow(leaderId: string) {
+    if (this.hub) {
+      // Two leaders, lowest id wins
+      if (this.id < leaderId)
+        return this.post({ kind: 'leader', from: this.id })
+      this.stepDown()
+    }
+    clearTimeout(this.electionTimeout)
+    if (leaderId !== this.leaderId) {
+      if (this.leaderId) this.closeConnections()
+      this.logger.debug('Following shared connection leader', {
+        tab: this.id,
+        leader: leaderId
+      })
+      this.leaderId = leaderId
+      for (const conn of this.conns.keys()) this.openConnection(conn)
+    }
+    clearTimeout(this.leaderTimeout)
+    this.leaderTimeout = setTimeout(
+      () => this.leaderLost(),
+      this.options.heartbeatInterval * 3
+    )
+  }
+
+  private leaderLost() {
+    this.logger.info('Shared connection leader lost', { leader: this.leaderId })
+    clearTimeout(this.leaderTimeout)
+    this.leaderId = undefined
+    this.closeConnections()
+    this.elect()
+  }
+
+  private closeConnections() {
+    for (const { socket } of [...this.conns.values()])
+      socket.handle({ kind: 'closed', ...LEADER_LOST })
+  }
+
+  private stepDown() {
+    clearInterval(this.heartbeatInterval)
+    const hub = this.hub
+    this.hub = undefined
+    this.leaderId = undefined
+    hub?.shutdown(LEADER_LOST.code, LEADER_LOST.reason)
+  }
+
+  // Hand over leadership and close connections. Sockets reconnecting will wait for a leader.
+  private leave() {
+    clearTimeout(this.electionTimeout)
+    clearTimeout(this.leaderTimeout)
+    if (this.hub) {
+      this.stepDown()
+      this.post({ kind: 'resign', from: this.id })
+    } else this.post({ kind: 'bye', from: this.id })
+    this.leaderId = undefined
+    this.closeConnections()
+  }
+
+  private hide() {
+    if (this.closed || this.hidden) return
+    this.leave()
+    this.hidden = true
+    this.channel.close()
+  }
+
+  private show() {
+    if (this.closed || !this.hidden) return
+    this.hidden = false
+    this.channel = this.createChannel()
+    this.elect()
+  }
+
+  /**
+   * Leave shared connection for good, handing over leadership if this tab is leader.
+   * Closes connections in this tab.
+   */
+  public close() {
+    if (this.closed) return
+    if (typeof globalThis.removeEventListener === 'function') {
+      globalThis.removeEventListener('pagehide', this.onPageHide)
+      globalThis.removeEventListener('pageshow', this.onPageShow)
+    }
+    this.leave()
+    this.closed = true
+    if (!this.hidden) this.channel.close()
+  }
+}
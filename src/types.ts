@@ -7,6 +7,45 @@ export enum State {
   Running = 'r'
 }
 
+/**
+ * Close codes used by client
+ */
+export enum CloseCode {
+  // No response to keepalive ping
+  KeepaliveTimeout = 4001
+}
+
+/**
+ * WebSocket readyState values, usable where there is no global WebSocket
+ */
+export enum ReadyState {
+  Connecting = 0,
+  Open = 1,
+  Closing = 2,
+  Closed = 3
+}
+
+/**
+ * The parts of WebSocket used by Socket
+ */
+export type WebSocketLike = Pick<
+  WebSocket,
+  | 'binaryType'
+  | 'close'
+  | 'onclose'
+  | 'onerror'
+  | 'onmessage'
+  | 'onopen'
+  | 'protocol'
+  | 'readyState'
+  | 'send'
+>
+
+export type WebSocketConstructor = new (
+  url: string | URL,
+  protocols?: string | string[]
+) => WebSocketLike
+
 export interface Progress {
   curr: number
   total: number
@@ -16,6 +55,11 @@ export interface Progress {
 export interface BaseChannelsMessage {
   t: string
   i: string | null
+  /**
+   * Channel message originates from. Set on app_state messages,
+   * or on live messages if resolved by SocketOptions.getMessageChannel.
+   */
+  channel?: EnvelopeChannel
 }
 
 export interface SuccessMessage<T> extends BaseChannelsMessage {
@@ -29,9 +73,47 @@ export interface ProgressMessage extends BaseChannelsMessage {
 }
 
 export interface PydanticError {
-  loc: string[]
+  /**
+   * Path to invalid value, field names and list indexes. Empty for errors on the whole payload.
+   */
+  loc: (string | number)[]
   msg: string
   type: string
+  // Added in Pydantic v2
+  input?: unknown
+  ctx?: Record<string, unknown>
+  url?: string
+}
+
+/**
+ * Translates a validation error message, i.e. for i18n.
+ * Either a function (returning undefined keeps original message), or messages by Pydantic error type.
+ * Message strings can use ctx values as placeholders: 'At least {min_length} characters'
+ */
+export type ErrorTranslator =
+  | ((error: PydanticError) => string | undefined)
+  | Record<string, string | ((error: PydanticError) => string)>
+
+export interface ParseErrorOptions {
+  /**
+   * Key errors by full path ('options[2].title'), instead of top level field ('options')
+   */
+  fullPath?: boolean
+  translate?: ErrorTranslator
+}
+
+/**
+ * Validation errors as a tree, following payload structure
+ */
+export interface ErrorTree {
+  /**
+   * Errors for this value
+   */
+  errors: string[]
+  /**
+   * Errors for nested values, by field name or list index
+   */
+  fields: Record<string, ErrorTree>
 }
 
 export interface ErrorPayload {
@@ -74,6 +156,13 @@ export interface BatchMessage extends BaseChannelsMessage {
   p: BatchPayload
 }
 
+export interface OutgoingMessage {
+  t: string
+  i?: string | null
+  p?: unknown
+  s?: State
+}
+
 export type ChannelsMessage<T = unknown> =
   | SuccessMessage<T>
   | ProgressMessage
@@ -81,17 +170,181 @@ export type ChannelsMessage<T = unknown> =
 
 export type TypeHandler<T = unknown> = (data: ChannelsMessage<T>) => void
 
+/**
+ * Registry of message types, to get typed calls and handlers.
+ * Apps add their own types using module augmentation:
+ *
+ * declare module 'envelope-client/src/types' {
+ *   interface MessageRegistry {
+ *     'meeting.get': { request: { pk: number }; response: Meeting }
+ *   }
+ * }
+ *
+ * Unregistered types are still allowed, but untyped.
+ */
+export interface MessageRegistry {
+  'channel.subscribe': {
+    request: SubscribePayload
+    response: SubscribedPayload
+  }
+  'channel.leave': { request: SubscribePayload }
+  's.describe': { response: MessageTypeDescription[] }
+}
+
+export interface MessageRegistryEntry {
+  request?: unknown
+  response?: unknown
+  progress?: Progress
+}
+
+/**
+ * Augment with `strict: true` to only allow registered message types.
+ */
+export interface MessageRegistryOptions {}
+
+export type RegisteredType = keyof MessageRegistry & string
+// (string & {}) allows any string, while keeping editor completion for registered types
+export type MessageType = MessageRegistryOptions extends { strict: true }
+  ? RegisteredType
+  : RegisteredType | (string & {})
+
+type RegistryEntry<K extends string> = K extends RegisteredType
+  ? MessageRegistry[K]
+  : {}
+
+export type RequestPayload<K extends string> =
+  RegistryEntry<K> extends { request: infer R } ? R : object | undefined
+export type ResponsePayload<K extends string> =
+  RegistryEntry<K> extends { response: infer R } ? R : unknown
+export type ProgressPayload<K extends string> =
+  RegistryEntry<K> extends { progress: infer P extends Progress } ? P : Progress
+
+type NamespaceResponses<N extends string> = {
+  [K in RegisteredType]: K extends N | `${N}.${string}`
+    ? MessageRegistry[K] extends { response: infer R }
+      ? R
+      : never
+    : never
+}[RegisteredType]
+
+/**
+ * Union of response payloads for all registered types in a namespace
+ */
+export type NamespacePayload<N extends string> = [
+  NamespaceResponses<N>
+] extends [never]
+  ? unknown
+  : NamespaceResponses<N>
+
+// Payload is optional only if request type allows undefined
+type PayloadArgs<K extends string> = undefined extends RequestPayload<K>
+  ? [p?: RequestPayload<K>]
+  : [p: RequestPayload<K>]
+
+export type CallArgs<K extends string> = [
+  ...PayloadArgs<K>,
+  config?: ChannelsConfig
+]
+export type SendArgs<K extends string> = PayloadArgs<K>
+
 export type ProgressHandler<PT extends Progress = Progress> = (
   progress: PT
 ) => void
 
-export type SocketEvent = 'readyState'
 type ReadyStateChangedEvent = { readyState: WebSocket['readyState'] }
-export type SocketEventHandler = (event: ReadyStateChangedEvent) => void
+type ReconnectingEvent = { attempt: number; delay: number }
+type ReconnectedEvent = { attempt: number }
+type InvalidMessageEvent = { message: ChannelsMessage; error: unknown }
+// Server rejected credentials (code and reason), or credential provider failed (error)
+type AuthFailedEvent = { code?: number; reason?: string; error?: unknown }
+
+export interface SocketEventMap {
+  readyState: ReadyStateChangedEvent
+  reconnecting: ReconnectingEvent
+  reconnected: ReconnectedEvent
+  invalidMessage: InvalidMessageEvent
+  authFailed: AuthFailedEvent
+}
+export type SocketEvent = keyof SocketEventMap
+export type SocketEventHandler<E extends SocketEvent = 'readyState'> = (
+  event: SocketEventMap[E]
+) => void
 
 // For Socket.ts
 export interface ChannelsConfig {
   timeout?: number
+  /**
+   * Time to keep message in outbound queue (if enabled), before giving up
+   */
+  ttl?: number
+  /**
+   * Abort call. Rejects with AbortError.
+   */
+  signal?: AbortSignal
+  /**
+   * Message type to send to server when a call is aborted, if server supports cancelling jobs.
+   * Message id will be that of the aborted call.
+   */
+  cancelType?: string
+  /**
+   * Identical calls (type and payload) in flight share one request and promise.
+   * Not applied to calls with an abort signal.
+   */
+  dedupe?: boolean
+  /**
+   * Cache successful response for this long (ms). Only for idempotent calls.
+   * Implies dedupe. Not applied to calls with an abort signal.
+   */
+  cacheTtl?: number
+  /**
+   * Incoming message type patterns that invalidate a cached response (as for type handlers)
+   */
+  invalidateOn?: string[]
+  /**
+   * Outbound priority (if scheduler is enabled), higher is sent first. Default 0.
+   * Use negative values for background work.
+   */
+  priority?: number
+}
+
+export interface RequestContext {
+  t: string
+  i: string | null
+  channel?: EnvelopeChannel
+  /**
+   * Report progress to server, as State.Running
+   */
+  progress(p?: Progress): void
+}
+
+/**
+ * Handles a call from server. Resolved value is sent as success payload.
+ * Throw ValidationError to respond with validation errors, or any other error to respond with a failure.
+ */
+export type RequestHandler<P = unknown, R = unknown> = (
+  payload: P,
+  ctx: RequestContext
+) => R | Promise<R>
+
+export interface PendingCall {
+  receive(data: ChannelsMessage): void
+  reject(error: unknown): void
+  /**
+   * Message has been sent, so a response is expected on this connection
+   */
+  sent: boolean
+}
+
+export type ValidationResult<T = unknown> =
+  | { success: true; data: T }
+  | { success: false; error: unknown }
+
+/**
+ * Validates incoming payloads. Should fit most validation libraries, i.e.
+ * { validate: (p) => zodSchema.safeParse(p) }
+ */
+export interface PayloadValidator<T = unknown> {
+  validate(payload: unknown): ValidationResult<T>
 }
 
 export interface Heartbeat {
@@ -101,19 +354,357 @@ export interface Heartbeat {
   intervalID?: NodeJS.Timeout
 }
 
+export interface QueuedMessage {
+  message: OutgoingMessage
+  expireTimeout?: NodeJS.Timeout
+  /**
+   * Message is a call, counted as in flight by scheduler until released
+   */
+  call?: boolean
+  priority?: number
+  onSent?(): void
+  onDiscard?(error: Error): void
+}
+
+/**
+ * Wire format for messages
+ */
+export interface Codec {
+  /**
+   * Used for negotiation with server, i.e. 'json' or 'msgpack'
+   */
+  name: string
+  /**
+   * Sends and receives binary frames
+   */
+  binary: boolean
+  encode(message: OutgoingMessage): string | ArrayBuffer
+  decode(data: string | ArrayBuffer): ChannelsMessage
+}
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+export interface LogFields {
+  t?: string
+  i?: string | null
+  direction?: 'in' | 'out'
+  // Channel path, i.e. "meeting/1"
+  channel?: string
+  state?: State
+  // Duration in ms, i.e. for a call
+  duration?: number
+  payload?: unknown
+  error?: unknown
+  [field: string]: unknown
+}
+
+export type LogMethod = (message: string, fields?: LogFields) => void
+
+export interface Logger {
+  /**
+   * Minimum level to log. Socket skips building log entries below this.
+   */
+  level?: LogLevel | 'silent'
+  debug: LogMethod
+  info: LogMethod
+  warn: LogMethod
+  error: LogMethod
+}
+
+/**
+ * Field names to redact from logged payloads (at any depth), or a function returning payload to log
+ */
+export type Redactor = string[] | ((payload: unknown, t?: string) => unknown)
+
+/**
+ * Pass message on to the next middleware (or the socket), possibly modified.
+ * Must be called before handler returns, or before its promise resolves. Not calling next drops the message.
+ */
+export type MiddlewareNext<M> = (message: M) => void
+export type MiddlewareHandler<M> = (
+  message: M,
+  next: MiddlewareNext<M>
+) => void | Promise<void>
+
+export interface Middleware {
+  /**
+   * Parsed messages from server, before validation and handlers
+   */
+  incoming?: MiddlewareHandler<ChannelsMessage>
+  /**
+   * Messages to server, when about to be sent on the wire (after any queueing)
+   */
+  outgoing?: MiddlewareHandler<OutgoingMessage>
+}
+
+export interface QueueOptions {
+  /**
+   * Max number of messages waiting to be sent
+   */
+  maxSize?: number
+  /**
+   * Default time to keep a message in queue (ms)
+   */
+  ttl?: number
+}
+
+export interface BackoffOptions {
+  /**
+   * Delay before first attempt in ms, doubled for each subsequent attempt
+   */
+  baseDelay?: number
+  maxDelay?: number
+  /**
+   * Randomize each delay by up to this fraction (0 - 1)
+   */
+  jitter?: number
+}
+
+export interface ReconnectOptions extends BackoffOptions {
+  /**
+   * Give up after this many consecutive attempts
+   */
+  maxAttempts?: number
+  /**
+   * Decide if a close should trigger reconnection.
+   * Default is to reconnect unless closed normally (code 1000).
+   */
+  shouldReconnect?(event: CloseEvent): boolean
+  /**
+   * Attempts are counted as consecutive until a reconnected socket gets a message,
+   * or has stayed open this long (ms)
+   */
+  stableAfter?: number
+}
+
+export interface KeepaliveOptions {
+  /**
+   * Send ping after this long without incoming messages (ms)
+   */
+  interval?: number
+  /**
+   * Force close connection if nothing arrives within this time after ping (ms).
+   * Any incoming message counts as a pong.
+   */
+  timeout?: number
+  pingType?: string
+}
+
+export interface SchedulerOptions {
+  /**
+   * Max number of calls waiting for response
+   */
+  maxInFlight?: number
+  /**
+   * Max number of messages sent per second
+   */
+  perSecond?: number
+}
+
+export interface AuthOptions {
+  /**
+   * Provide URL to connect to, called before every connection attempt. Replaces URL given to constructor.
+   * @param refresh Previous credentials were rejected, get fresh ones
+   */
+  url?(refresh: boolean): string | URL | Promise<string | URL>
+  /**
+   * Provide auth token, called before every connection attempt. Added to URL query as tokenParam.
+   * @param refresh Previous token was rejected, get a fresh one
+   */
+  token?(refresh: boolean): string | Promise<string>
+  /**
+   * URL query parameter for token, default 'token'
+   */
+  tokenParam?: string
+  /**
+   * Close codes meaning server rejected credentials. Default 1008 (policy violation), 4401 and 4403.
+   * Server must accept connection before closing, since browsers hide the reason for refused connections.
+   */
+  closeCodes?: number[]
+  /**
+   * When credentials are rejected, get fresh ones and retry once before giving up. Default true.
+   */
+  refresh?: boolean
+}
+
+export interface SharedOptions {
+  /**
+   * BroadcastChannel name. Tabs with the same name share connection.
+   */
+  name?: string
+  /**
+   * Time to wait for answers from other tabs during leader election (ms)
+   */
+  electionTimeout?: number
+  /**
+   * Leader announces itself this often (ms). Leader is considered lost after three missed announcements.
+   */
+  heartbeatInterval?: number
+  /**
+   * BroadcastChannel implementation, instead of global BroadcastChannel
+   */
+  BroadcastChannel?: new (name: string) => BroadcastChannel
+}
+
 export interface SocketOptions {
+  /**
+   * Get URL or token before each connection attempt, for short-lived credentials.
+   * Rejected credentials emit authFailed, and stop reconnection.
+   * Provider failures emit authFailed too, but count as failed connection attempts.
+   */
+  auth?: AuthOptions
   /**
    * Register a handler to be celled before app_state is processed.
    * Can be used to clear content from channel.
    */
   beforeAppStateHandler?(channel: { channelType: string; pk: number }): void
+  /**
+   * Resolve channel for incoming live messages, so that channel handlers can be used.
+   * Default is to use any channel the server tagged the message with.
+   */
+  getMessageChannel?(msg: ChannelsMessage): EnvelopeChannel | undefined
+  /**
+   * Wire format, default is JSON. Several codecs can be given in order of preference,
+   * and the one to use is negotiated with server (see codecNegotiation).
+   */
+  codec?: Codec | Codec[]
+  /**
+   * How to agree on codec with server:
+   * 'subprotocol' - offers 'envelope.<name>' subprotocols, and uses the one server accepts (JSON if it accepts none).
+   * 'url' - adds 'format=<name>' to URL query, for the preferred codec.
+   * Default is 'subprotocol' if several codecs are given, otherwise no negotiation.
+   */
+  codecNegotiation?: 'subprotocol' | 'url'
   config?: ChannelsConfig
+  /**
+   * Log to console, if no logger is given
+   */
   debug?: boolean
+  /**
+   * Detect dead connections by sending pings on incoming silence.
+   * Closes with CloseCode.KeepaliveTimeout if there is no answer, triggering any reconnection.
+   * Set to true to use default settings.
+   */
+  keepalive?: boolean | KeepaliveOptions
+  /**
+   * Structured logger. Default is console logging if debug is set, otherwise silent.
+   */
+  logger?: Logger
   manual?: boolean
+  /**
+   * Collect call and connection metrics, available as socket.metrics
+   */
+  metrics?: boolean
+  /**
+   * Middleware, in order. Incoming and outgoing messages pass through each in turn.
+   */
+  middleware?: Middleware[]
+  /**
+   * Queue outgoing messages while socket is not open, and send them when it opens.
+   * Set to true to use default settings.
+   */
+  queue?: boolean | QueueOptions
+  /**
+   * Reconnect automatically when connection is lost.
+   * Set to true to use default settings.
+   */
+  reconnect?: boolean | ReconnectOptions
+  /**
+   * Redact sensitive fields from logged payloads
+   */
+  redact?: Redactor
+  /**
+   * Limit outbound rate and number of calls in flight. Waiting messages are sent by priority.
+   * Call timeouts start when message is actually sent.
+   * Set to true to use default settings.
+   */
+  scheduler?: boolean | SchedulerOptions
+  /**
+   * Validators for incoming payloads, by message type.
+   * Invalid messages are not passed to type handlers, and reject any call they respond to.
+   */
+  validators?: Partial<Record<string, PayloadValidator>>
+  /**
+   * WebSocket implementation to use, instead of global WebSocket
+   */
+  WebSocket?: WebSocketConstructor
+  schema?: SchemaOptions
+  /**
+   * Share one connection between browser tabs with the same origin and URL. Set to true to use default settings.
+   * Implies reconnect (unless disabled), since sockets reconnect when leader tab changes.
+   * Closing the socket leaves the shared connection, handing over leadership.
+   */
+  shared?: boolean | SharedOptions
+  subscriptions?: SubscriptionOptions
+}
+
+export type JSONSchemaType =
+  | 'string'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'object'
+  | 'array'
+  | 'null'
+
+export interface JSONSchema {
+  $ref?: string
+  $defs?: Record<string, JSONSchema>
+  definitions?: Record<string, JSONSchema>
+  title?: string
+  description?: string
+  type?: JSONSchemaType | JSONSchemaType[]
+  properties?: Record<string, JSONSchema>
+  required?: string[]
+  additionalProperties?: boolean | JSONSchema
+  items?: JSONSchema
+  enum?: unknown[]
+  const?: unknown
+  allOf?: JSONSchema[]
+  anyOf?: JSONSchema[]
+  oneOf?: JSONSchema[]
+  minimum?: number
+  maximum?: number
+  exclusiveMinimum?: number
+  exclusiveMaximum?: number
+  minLength?: number
+  maxLength?: number
+  pattern?: string
+  minItems?: number
+  maxItems?: number
+}
+
+export interface MessageTypeDescription {
+  name: string
+  description?: string
+  schema?: JSONSchema
+}
+
+export interface SchemaOptions {
+  /**
+   * Message type used to request list of message types from server
+   */
+  describeType?: string
+}
+
+export interface SubscriptionRetryOptions extends BackoffOptions {
+  /**
+   * Max subscribe attempts, including the first one
+   */
+  maxAttempts?: number
+  /**
+   * Decide if a failed subscription should be retried.
+   * Default is to only retry timeouts, since a server refusal (i.e. permission denied) will not change.
+   */
+  shouldRetry?(error: unknown): boolean
 }
 
 export interface SubscriptionOptions {
   leaveDelay?: number
+  /**
+   * Retry failed subscriptions. Set to false to disable.
+   */
+  retry?: boolean | SubscriptionRetryOptions
 }
 
 export interface EnvelopeChannel {
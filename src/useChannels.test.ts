@@ -1,8 +1,14 @@
 import { test } from '@jest/globals'
 
-import useChannels, { Subscription, count } from './useChannels'
+import useChannels, {
+  Subscription,
+  SubscriptionStatus,
+  count
+} from './useChannels'
 import { sleep } from './Socket.test'
-import { SocketEventHandler } from 'types'
+import { SocketEventHandler, SubscriptionOptions } from 'types'
+import { TimeoutError } from './errors'
+import { silentLogger } from './logger'
 
 test('count', () => {
   const ids = count()
@@ -28,20 +34,21 @@ test('Subscription objects', () => {
   expect(subscription.shouldLeave).toBe(true)
 })
 
-function useMockedChannels(isOpen: boolean) {
+function useMockedChannels(isOpen: boolean, opts?: SubscriptionOptions) {
   const mockSocket = {
     isOpen,
     messageID: 1,
     // @ts-ignore
     call: jest.fn(() => Promise.resolve()),
     send: jest.fn(),
-    on: jest.fn()
+    on: jest.fn(),
+    logger: silentLogger
   }
   const subscribedCallback = jest.fn()
 
   const { getSubscribedChannels, onSubscriptionChanged, subscribe } =
     // @ts-ignore
-    useChannels(mockSocket)
+    useChannels(mockSocket, opts)
   onSubscriptionChanged(subscribedCallback)
   return {
     mockSocket,
@@ -147,3 +154,84 @@ test('useChannels single leave command', async () => {
   expect([...getSubscribedChannels()].length).toBe(0)
   expect(subscribedCallback).toBeCalledWith(channelLeftCall)
 })
+
+test('useChannels failed subscription', async () => {
+  const { mockSocket, subscribe, subscribedCallback } = useMockedChannels(true)
+  const error = new Error('Permission denied')
+  mockSocket.call.mockImplementationOnce(() => Promise.reject(error))
+
+  await expect(subscribe('test', 1).promise).rejects.toBe(error)
+  // Server refusals are not retried
+  expect(mockSocket.call).toBeCalledTimes(1)
+  expect(subscribedCallback).toBeCalledWith({
+    channelType: 'test',
+    pk: 1,
+    subscribed: false,
+    error
+  })
+
+  // Failed subscriptions are tried again on next subscribe
+  await subscribe('test', 1).promise
+  expect(mockSocket.call).toBeCalledTimes(2)
+  expect(subscribedCallback).toBeCalledWith(
+    expect.objectContaining({ subscribed: true })
+  )
+})
+
+test('useChannels subscription retry', async () => {
+  const { mockSocket, subscribe, subscribedCallback } = useMockedChannels(
+    true,
+    { retry: { baseDelay: 5, jitter: 0, maxAttempts: 2 } }
+  )
+  mockSocket.call.mockImplementation(() => Promise.reject(new TimeoutError()))
+
+  await expect(subscribe('test', 1).promise).rejects.toBeInstanceOf(
+    TimeoutError
+  )
+  expect(mockSocket.call).toBeCalledTimes(2)
+  expect(subscribedCallback).toBeCalledTimes(1)
+
+  // Second attempt succeeds
+  mockSocket.call.mockImplementationOnce(() =>
+    Promise.reject(new TimeoutError())
+  )
+  mockSocket.call.mockImplementationOnce(() => Promise.resolve())
+  await subscribe('test', 2).promise
+  expect(mockSocket.call).toBeCalledTimes(4)
+  expect(subscribedCallback).toBeCalledWith({
+    channelType: 'test',
+    pk: 2,
+    subscribed: true
+  })
+})
+
+test('useChannels leave while subscribing', async () => {
+  const { mockSocket, subscribe, subscribedCallback } = useMockedChannels(true)
+  let respond = () => {}
+  mockSocket.call.mockImplementationOnce(
+    () => new Promise<void>((resolve) => (respond = resolve))
+  )
+
+  const { leave, promise } = subscribe('test', 1)
+  leave(0)
+  await sleep()
+  expect(mockSocket.send).not.toBeCalled()
+  respond()
+  await promise
+  await sleep()
+  expect(subscribedCallback).toBeCalledWith(
+    expect.objectContaining({ subscribed: false })
+  )
+  expect(mockSocket.send).toBeCalledWith('channel.leave', {
+    channel_type: 'test',
+    pk: 1
+  })
+})
+
+test('Subscription failed status', () => {
+  const subscription = new Subscription({ channel_type: 'test', pk: 1 })
+  subscription.add(1)
+  subscription.status = SubscriptionStatus.Failed
+  expect(subscription.shouldSubscribe).toBe(true)
+  expect(subscription.isActive).toBe(false)
+})
@@ -1,23 +1,43 @@
 import type Socket from './Socket'
-import { EnvelopeChannel, SubscriptionOptions } from './types'
+import { isTimeoutError } from './errors'
+import {
+  EnvelopeChannel,
+  ReadyState,
+  SubscriptionOptions,
+  SubscriptionRetryOptions
+} from './types'
+import { channelPath, getBackoffDelay } from './utils'
 
-interface ChannelSubscribedEvent {
+export interface ChannelSubscribedEvent {
   channelType: string
   pk: number
   subscribed: boolean
+  /**
+   * Set when subscription has failed, and will not be retried
+   */
+  error?: unknown
 }
 type ChannelSubscribedHandler = (event: ChannelSubscribedEvent) => void
 
-const SubscriptionStatus = {
+export const SubscriptionStatus = {
   None: 0,
   Subscribing: 1,
-  Subscribed: 2
+  Subscribed: 2,
+  Failed: 3
 } as const
 
 const DEFAULT_OPTIONS: SubscriptionOptions = {
   leaveDelay: 5_000
 }
 
+const DEFAULT_RETRY: Required<SubscriptionRetryOptions> = {
+  baseDelay: 1_000,
+  maxDelay: 10_000,
+  jitter: 0.5,
+  maxAttempts: 3,
+  shouldRetry: isTimeoutError
+}
+
 export function* count(): Generator<number, number> {
   let n = 0
   while (true) yield ++n
@@ -29,6 +49,10 @@ export function* count(): Generator<number, number> {
 export class Subscription extends Set<number> {
   public readonly channel: EnvelopeChannel
   public leaveTimeout?: NodeJS.Timeout
+  // Ongoing subscribe process, including retries
+  public pending?: Promise<void>
+  // Incremented for each subscribe process, to detect if it's been superseded
+  public generation: number = 0
   public status: (typeof SubscriptionStatus)[keyof typeof SubscriptionStatus]
 
   constructor(channel: EnvelopeChannel) {
@@ -37,6 +61,16 @@ export class Subscription extends Set<number> {
     this.status = SubscriptionStatus.None
   }
 
+  /**
+   * Subscribed, or on the way there
+   */
+  public get isActive() {
+    return (
+      this.status === SubscriptionStatus.Subscribing ||
+      this.status === SubscriptionStatus.Subscribed
+    )
+  }
+
   /**
    * This means that a leave command should be sent
    */
@@ -48,7 +82,11 @@ export class Subscription extends Set<number> {
    * This means that a subscribe command should be sent
    */
   public get shouldSubscribe() {
-    return !!this.size && this.status === SubscriptionStatus.None
+    return (
+      !!this.size &&
+      (this.status === SubscriptionStatus.None ||
+        this.status === SubscriptionStatus.Failed)
+    )
   }
 }
 
@@ -63,13 +101,20 @@ export default function useChannels(
   socket: Socket,
   opts?: SubscriptionOptions
 ) {
-  const subscribedHandlers: ChannelSubscribedHandler[] = []
+  const subscribedHandlers = new Set<ChannelSubscribedHandler>()
   const options = { ...DEFAULT_OPTIONS, ...opts }
+  const retryOptions: Required<SubscriptionRetryOptions> | undefined =
+    options.retry === false
+      ? undefined
+      : {
+          ...DEFAULT_RETRY,
+          ...(options.retry === true ? {} : options.retry)
+        }
   const subscriptions = new Map<string, Subscription>()
   const subscriptionIds = count()
 
   function getSubscription(channel: EnvelopeChannel) {
-    const path = `${channel.channel_type}/${channel.pk}`
+    const path = channelPath(channel)
     if (!subscriptions.has(path))
       subscriptions.set(path, new Subscription(channel))
     return subscriptions.get(path)!
@@ -81,31 +126,91 @@ export default function useChannels(
         yield channelToSnakeCase(channel)
   }
 
-  function emitSubscribedEvents(channel: EnvelopeChannel, subscribed: boolean) {
+  function emitSubscribedEvents(
+    channel: EnvelopeChannel,
+    subscribed: boolean,
+    error?: unknown
+  ) {
     for (const handler of subscribedHandlers)
       handler({
         channelType: channel.channel_type,
         pk: channel.pk,
-        subscribed
+        subscribed,
+        ...(error === undefined ? {} : { error })
       })
   }
 
+  function scheduleLeave(subscription: Subscription, delay?: number) {
+    clearTimeout(subscription.leaveTimeout)
+    subscription.leaveTimeout = setTimeout(
+      () => performLeave(subscription),
+      typeof delay === 'number' ? delay : options.leaveDelay
+    )
+  }
+
   async function performLeave(subscription: Subscription) {
+    // Let any ongoing subscribe finish, so we know what to leave
+    if (subscription.status === SubscriptionStatus.Subscribing)
+      await subscription.pending?.catch(() => {})
+    // Subscription might have been picked up again, or dropped by a disconnect
+    if (!subscription.shouldLeave) return
     // Do not wait for response
     socket.send('channel.leave', subscription.channel)
+    socket.logger.info('Left channel', {
+      channel: channelPath(subscription.channel)
+    })
     subscription.status = SubscriptionStatus.None
     emitSubscribedEvents(subscription.channel, false)
   }
 
-  async function performSubscribe(subscription: Subscription) {
+  function canRetry(error: unknown, attempt: number) {
+    return (
+      !!retryOptions &&
+      attempt < retryOptions.maxAttempts &&
+      retryOptions.shouldRetry(error)
+    )
+  }
+
+  function performSubscribe(subscription: Subscription) {
     subscription.status = SubscriptionStatus.Subscribing
-    await socket.call('channel.subscribe', subscription.channel)
-    subscription.status = SubscriptionStatus.Subscribed
-    emitSubscribedEvents(subscription.channel, true)
+    const generation = ++subscription.generation
+    const isSuperseded = () => subscription.generation !== generation
+    const channel = channelPath(subscription.channel)
+    subscription.pending = (async () => {
+      for (let attempt = 1; ; attempt++) {
+        socket.logger.debug('Subscribing', { channel, attempt })
+        try {
+          await socket.call('channel.subscribe', subscription.channel)
+          break
+        } catch (error) {
+          // Subscription was reset while waiting for response
+          if (isSuperseded()) return
+          if (!canRetry(error, attempt)) {
+            subscription.status = SubscriptionStatus.Failed
+            socket.logger.warn('Subscription failed', { channel, error })
+            emitSubscribedEvents(subscription.channel, false, error)
+            throw error
+          }
+        }
+        await new Promise((resolve) =>
+          setTimeout(resolve, getBackoffDelay(attempt, retryOptions!))
+        )
+        // Connection lost (will be resubscribed on open), or another subscribe took over
+        if (isSuperseded()) return
+        // Nobody wants this anymore
+        if (!subscription.size) {
+          subscription.status = SubscriptionStatus.None
+          return
+        }
+      }
+      subscription.status = SubscriptionStatus.Subscribed
+      socket.logger.info('Subscribed', { channel })
+      emitSubscribedEvents(subscription.channel, true)
+    })()
+    return subscription.pending
   }
 
   function subscribe(channel_type: string, pk: number) {
-    // TODO Cancel any leave timeouts
     const channel = { channel_type, pk }
     const id = subscriptionIds.next().value
     const subscription = getSubscription(channel)
@@ -114,38 +219,45 @@ export default function useChannels(
 
     function leave(delay?: number) {
       subscription.delete(id)
-      if (!subscription.shouldLeave) return
-      clearTimeout(subscription.leaveTimeout)
-      delay = typeof delay === 'number' ? delay : options.leaveDelay
-      subscription.leaveTimeout = setTimeout(
-        () => performLeave(subscription),
-        delay
-      )
+      // If still subscribing, leave will wait for it to finish
+      if (subscription.size || !subscription.isActive) return
+      scheduleLeave(subscription, delay)
     }
 
-    const promise =
-      subscription.shouldSubscribe && socket.isOpen
-        ? performSubscribe(subscription)
-        : Promise.resolve()
+    let promise: Promise<void> = Promise.resolve()
+    if (subscription.shouldSubscribe && socket.isOpen)
+      promise = performSubscribe(subscription)
+    else if (subscription.status === SubscriptionStatus.Subscribing)
+      promise = subscription.pending!
     return {
       promise,
       leave
     }
   }
 
+  /**
+   * @returns Function to remove handler
+   */
   function onSubscriptionChanged(handler: ChannelSubscribedHandler) {
-    subscribedHandlers.push(handler)
+    subscribedHandlers.add(handler)
+    return () => {
+      subscribedHandlers.delete(handler)
+    }
   }
 
   socket.on('readyState', ({ readyState }) => {
-    if (readyState === WebSocket.OPEN) {
-      // When connected, subscribe to all channels that should be
-      for (const { channel, shouldSubscribe } of subscriptions.values())
-        if (shouldSubscribe) subscribe(channel.channel_type, channel.pk)
+    if (readyState === ReadyState.Open) {
+      // When connected (or reconnected), subscribe to all channels that should be
+      for (const subscription of subscriptions.values())
+        if (subscription.shouldSubscribe)
+          // Failures are reported through onSubscriptionChanged
+          performSubscribe(subscription).catch(() => {})
     } else {
       // Any other state switch means we're no longer subscribed to any channel
-      for (const subscription of subscriptions.values())
+      for (const subscription of subscriptions.values()) {
         subscription.status = SubscriptionStatus.None
+        subscription.generation++
+      }
     }
   })
 
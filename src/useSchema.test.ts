@@ -0,0 +1,97 @@
+import { expect, jest, test } from '@jest/globals'
+
+import useSchema from './useSchema'
+import { ValidationError } from './errors'
+import { MessageTypeDescription, SocketEventHandler } from './types'
+
+const descriptions: MessageTypeDescription[] = [
+  {
+    name: 'meeting.get',
+    description: 'Get a meeting',
+    schema: {
+      type: 'object',
+      properties: { pk: { type: 'integer', minimum: 1 } },
+      required: ['pk']
+    }
+  },
+  {
+    name: 'poll.add',
+    schema: {
+      type: 'object',
+      properties: {
+        title: { type: 'string', minLength: 3 },
+        options: { type: 'array', items: { $ref: '#/$defs/Option' } }
+      },
+      additionalProperties: false,
+      $defs: {
+        Option: {
+          type: 'object',
+          properties: { title: { type: 'string' } },
+          required: ['title']
+        }
+      }
+    }
+  },
+  { name: 'no.schema' }
+]
+
+function useMockedSchema() {
+  const mockSocket = {
+    call: jest.fn(() => Promise.resolve({ p: descriptions })),
+    on: jest.fn()
+  }
+  // @ts-ignore
+  const schema = useSchema(mockSocket)
+  return { mockSocket, schema }
+}
+
+test('useSchema describe', async () => {
+  const { mockSocket, schema } = useMockedSchema()
+
+  expect((await schema.describe()).map((d) => d.name)).toEqual([
+    'meeting.get',
+    'poll.add',
+    'no.schema'
+  ])
+  expect(await schema.getDescription('meeting.get')).toEqual(descriptions[0])
+  expect(await schema.getSchema('poll.add')).toEqual(descriptions[1].schema)
+  expect(await schema.getSchema('no.schema')).toBeUndefined()
+  expect(mockSocket.call).toBeCalledTimes(1)
+  expect(mockSocket.call).toBeCalledWith('s.describe')
+
+  // New connection clears cache
+  const readyHandler = mockSocket.on.mock.calls[0][1] as SocketEventHandler
+  readyHandler({ readyState: 1 }) // OPEN
+  await schema.describe()
+  expect(mockSocket.call).toBeCalledTimes(2)
+})
+
+test('useSchema checkPayload', async () => {
+  const { schema } = useMockedSchema()
+
+  expect(await schema.checkPayload('meeting.get', { pk: 1 })).toEqual([])
+  expect(await schema.checkPayload('meeting.get')).toEqual([
+    { loc: ['pk'], msg: 'Field required', type: 'missing' }
+  ])
+  expect(await schema.checkPayload('meeting.get', { pk: 0.5 })).toEqual([
+    { loc: ['pk'], msg: 'Input should be of type integer', type: 'int_type' }
+  ])
+  expect(
+    await schema.checkPayload('poll.add', {
+      title: 'Hi',
+      options: [{ title: 'Yes' }, {}],
+      extra: true
+    })
+  ).toEqual([
+    expect.objectContaining({ loc: ['title'], type: 'string_too_short' }),
+    expect.objectContaining({
+      loc: ['options', 1, 'title'],
+      type: 'missing'
+    }),
+    expect.objectContaining({ loc: ['extra'], type: 'extra_forbidden' })
+  ])
+  expect(await schema.checkPayload('no.schema', { anything: 1 })).toEqual([])
+  await expect(schema.assertPayload('meeting.get', {})).rejects.toBeInstanceOf(
+    ValidationError
+  )
+})
@@ -0,0 +1,78 @@
+import type Socket from './Socket'
+import { ValidationError } from './errors'
+import { checkSchema } from './jsonSchema'
+import { MessageTypeDescription, PydanticError, SchemaOptions } from './types'
+
+const DEFAULT_OPTIONS: Required<SchemaOptions> = {
+  describeType: 's.describe'
+}
+
+export default function useSchema(socket: Socket, opts?: SchemaOptions) {
+  const options = { ...DEFAULT_OPTIONS, ...opts }
+  // Cached per connection
+  let descriptions: Promise<Map<string, MessageTypeDescription>> | undefined
+
+  function getDescriptions() {
+    if (!descriptions) {
+      descriptions = socket
+        .call<MessageTypeDescription[]>(options.describeType)
+        .then(({ p }) => new Map(p.map((desc) => [desc.name, desc])))
+      // Allow retrying on failure
+      descriptions.catch(() => {
+        descriptions = undefined
+      })
+    }
+    return descriptions
+  }
+
+  /**
+   * List message types registered on server, with description and schema
+   */
+  async function describe() {
+    return [...(await getDescriptions()).values()]
+  }
+
+  async function getDescription(t: string) {
+    return (await getDescriptions()).get(t)
+  }
+
+  async function getSchema(t: string) {
+    return (await getDescription(t))?.schema
+  }
+
+  /**
+   * Check outgoing payload against server schema for message type.
+   * Types without schema are considered valid.
+   * @param t type
+   * @param p payload
+   * @returns List of errors, empty if valid
+   */
+  async function checkPayload(
+    t: string,
+    p?: unknown
+  ): Promise<PydanticError[]> {
+    const schema = await getSchema(t)
+    return schema ? checkSchema(schema, p ?? {}) : []
+  }
+
+  /**
+   * Like checkPayload, but throws ValidationError (as server would) if invalid
+   */
+  async function assertPayload(t: string, p?: unknown) {
+    const errors = await checkPayload(t, p)
+    if (errors.length) throw new ValidationError('Invalid payload', errors)
+  }
+
+  socket.on('readyState', () => {
+    // New connection might mean a different server version
+    descriptions = undefined
+  })
+
+  return {
+    assertPayload,
+    checkPayload,
+    describe,
+    getDescription,
+    getSchema
+  }
+}
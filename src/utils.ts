@@ -0,0 +1,22 @@
+import { BackoffOptions, EnvelopeChannel } from './types'
+
+/**
+ * Exponential backoff delay for a 1-indexed attempt, randomized by jitter.
+ * @param attempt Attempt number, starting at 1
+ * @param opts Backoff settings
+ * @returns Delay in ms
+ */
+export function getBackoffDelay(
+  attempt: number,
+  { baseDelay, maxDelay, jitter }: Required<BackoffOptions>
+) {
+  const delay = Math.min(maxDelay, baseDelay * 2 ** (attempt - 1))
+  return Math.round(delay * (1 - jitter * Math.random()))
+}
+
+/**
+ * Unique path for channel, i.e. "meeting/42"
+ */
+export function channelPath({ channel_type, pk }: EnvelopeChannel) {
+  return `${channel_type}/${pk}`
+}
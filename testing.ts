@@ -0,0 +1,7 @@
+export { default as MockEnvelopeServer } from './src/mockServer'
+export type {
+  AppStateMessage,
+  MockServerOptions,
+  Responder,
+  ResponderContext
+} from './src/mockServer'
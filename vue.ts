@@ -0,0 +1,7 @@
+export {
+  provideSocket,
+  socketKey,
+  useCall,
+  useChannel,
+  useSocket
+} from './src/composables'